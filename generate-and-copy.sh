@@ -26,7 +26,7 @@ fi
 echo -e "${GREEN}Generating API types from Fake REST API: ${SWAGGER_URL}${NC}"
 
 # Run the generator
-npm run generate -- "$SWAGGER_URL" "$OUTPUT_FILE"
+npm run generate -- --input "$SWAGGER_URL" --output "$OUTPUT_FILE"
 
 echo -e "${GREEN}Copying API types to: ${TARGET_DIR}${NC}"
 
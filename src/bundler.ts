@@ -0,0 +1,504 @@
+import * as path from 'path'
+import { URL } from 'url'
+import { fetchSwaggerSpec } from './fetcher'
+import { OpenAPISpec } from './types'
+
+/**
+ * Keys whose values are schemas (or maps/lists of schemas)
+ */
+const SCHEMA_KEYS = new Set([
+  'schema',
+  'schemas',
+  'definitions',
+  'properties',
+  'items',
+  'allOf',
+  'oneOf',
+  'anyOf',
+  'not',
+  'additionalProperties',
+  'patternProperties',
+])
+
+/**
+ * State shared while bundling a single specification
+ */
+interface BundleContext {
+  rootLocation: string
+  documents: Map<string, any>
+  hoisted: Map<string, string>
+  hoistedSchemas: Record<string, any>
+  usedNames: Set<string>
+  schemaRefPrefix: string
+  inlining: string[]
+}
+
+/**
+ * Resolves every external $ref in the specification by loading the referenced
+ * documents relative to the root spec and hoisting the referenced schemas into
+ * components.schemas (or definitions for Swagger 2.0) under collision-free names
+ * @param spec The root Swagger/OpenAPI specification
+ * @param source The URL or file path the root specification was loaded from
+ * @returns A specification in which every $ref is local
+ */
+export async function bundleSwaggerSpec(
+  spec: OpenAPISpec,
+  source: string,
+): Promise<OpenAPISpec> {
+  const isSwagger2 = !spec.components?.schemas && !!spec.definitions
+  const rootLocation = toAbsoluteLocation(source)
+  const rootSpec = hoistNestedSchemas(spec, isSwagger2)
+  const rootSchemas =
+    (isSwagger2 ? rootSpec.definitions : rootSpec.components?.schemas) || {}
+
+  const context: BundleContext = {
+    rootLocation,
+    documents: new Map([[rootLocation, rootSpec]]),
+    hoisted: new Map(),
+    hoistedSchemas: {},
+    usedNames: new Set(Object.keys(rootSchemas)),
+    schemaRefPrefix: isSwagger2 ? '#/definitions/' : '#/components/schemas/',
+    inlining: [],
+  }
+
+  // Root schemas that merely point to an external schema take its place,
+  // so that the external schema keeps the name the root spec gave it
+  const schemas: Record<string, any> = {}
+  for (const [name, schema] of Object.entries(rootSchemas)) {
+    const ref = getExternalRef(schema)
+    if (ref) {
+      const target = await resolveRefTarget(ref, rootLocation, context)
+      if (!context.hoisted.has(target.key)) {
+        context.hoisted.set(target.key, name)
+        schemas[name] = await bundleNode(
+          target.node,
+          target.location,
+          true,
+          context,
+        )
+        continue
+      }
+    }
+    schemas[name] = await bundleNode(schema, rootLocation, true, context)
+  }
+
+  const bundled: Record<string, any> = {}
+  for (const [key, value] of Object.entries(rootSpec)) {
+    if (key !== 'components' && key !== 'definitions') {
+      bundled[key] = await bundleNode(value, rootLocation, false, context)
+    }
+  }
+
+  const allSchemas = { ...schemas, ...context.hoistedSchemas }
+  if (isSwagger2) {
+    bundled.definitions = allSchemas
+  } else {
+    const components: Record<string, any> = {}
+    for (const [key, value] of Object.entries(rootSpec.components || {})) {
+      if (key !== 'schemas') {
+        components[key] = await bundleNode(value, rootLocation, false, context)
+      }
+    }
+    bundled.components = { ...components, schemas: allSchemas }
+  }
+
+  return bundled as OpenAPISpec
+}
+
+/**
+ * Moves the schemas that local $refs point into, such as
+ * `#/components/schemas/Tree/properties/children`, to schemas of their own and
+ * points both the $refs and the place they were declared to them. Recursion
+ * through a nested schema thus becomes recursion through a named schema
+ * @param spec The root specification
+ * @param isSwagger2 Whether the schemas are Swagger 2.0 definitions
+ * @returns A copy of the specification, or the specification itself when no
+ * $ref points into a schema
+ */
+function hoistNestedSchemas(
+  spec: OpenAPISpec,
+  isSwagger2: boolean,
+): OpenAPISpec {
+  const prefix = isSwagger2 ? '/definitions/' : '/components/schemas/'
+  const pointers = new Set<string>()
+  collectLocalRefs(spec, pointers)
+  const nested = [...pointers]
+    .filter((pointer) => pointer.startsWith(prefix))
+    .map((pointer) => pointer.slice(prefix.length).split('/'))
+    .filter((tokens) => tokens.length > 1)
+  if (nested.length === 0) {
+    return spec
+  }
+
+  const copy = structuredClone(spec)
+  const schemas = (isSwagger2 ? copy.definitions : copy.components?.schemas)!
+  const usedNames = new Set(Object.keys(schemas))
+  const refs = new Map<string, string>()
+
+  // The deepest schemas first, so that their ancestors still hold them
+  nested.sort((a, b) => b.length - a.length)
+  for (const tokens of nested) {
+    const keys = tokens.map(decodePointerToken)
+    const parent = keys
+      .slice(0, -1)
+      .reduce((node: any, key) => node?.[key], schemas)
+    const key = keys[keys.length - 1]
+    const node = parent?.[key]
+    // Dangling $refs are reported by the validator
+    if (!node || typeof node !== 'object') {
+      continue
+    }
+
+    const pointer = `#${prefix}${tokens.join('/')}`
+    if (typeof node.$ref === 'string' && Object.keys(node).length === 1) {
+      refs.set(pointer, node.$ref)
+      continue
+    }
+    const name = getUniqueName(toNestedSchemaName(keys), usedNames)
+    schemas[name] = node
+    parent[key] = { $ref: `#${prefix}${escapePointerToken(name)}` }
+    refs.set(pointer, parent[key].$ref)
+  }
+
+  rewriteLocalRefs(copy, refs)
+  return copy
+}
+
+/**
+ * Collects the JSON pointers of the local $refs of a node
+ * @param node The node to search
+ * @param pointers The pointers found so far
+ */
+function collectLocalRefs(node: any, pointers: Set<string>): void {
+  if (!node || typeof node !== 'object') {
+    return
+  }
+  if (typeof node.$ref === 'string' && node.$ref.startsWith('#')) {
+    pointers.add(node.$ref.slice(1))
+  }
+  for (const value of Object.values(node)) {
+    collectLocalRefs(value, pointers)
+  }
+}
+
+/**
+ * Replaces local $refs of a node in place
+ * @param node The node to rewrite
+ * @param refs The replacement of each $ref
+ */
+function rewriteLocalRefs(node: any, refs: Map<string, string>): void {
+  if (!node || typeof node !== 'object') {
+    return
+  }
+  // Nested schemas that are only a $ref point on to their target
+  for (let hops = 0; refs.has(node.$ref) && hops < refs.size; hops++) {
+    node.$ref = refs.get(node.$ref)
+  }
+  for (const value of Object.values(node)) {
+    rewriteLocalRefs(value, refs)
+  }
+}
+
+/**
+ * Names a nested schema the way the parser names inline schemas, e.g.
+ * `Tree/properties/children/items` becomes TreeChildrenItem
+ * @param keys The decoded pointer tokens below the schemas
+ * @returns The schema name
+ */
+function toNestedSchemaName(keys: string[]): string {
+  let name = keys[0]
+  for (let index = 1; index < keys.length; index++) {
+    const key = keys[index]
+    if (key === 'properties' && index + 1 < keys.length) {
+      const property = keys[++index]
+      name += property.charAt(0).toUpperCase() + property.slice(1)
+    } else if (key === 'items') {
+      name += 'Item'
+    } else if (/^(allOf|oneOf|anyOf)$/.test(key) && index + 1 < keys.length) {
+      name += key.charAt(0).toUpperCase() + key.slice(1) + keys[++index]
+    } else {
+      name += key.charAt(0).toUpperCase() + key.slice(1)
+    }
+  }
+  return name
+}
+
+/**
+ * Recursively rewrites the $refs of a node from the given document
+ * @param node The node to bundle
+ * @param location The location of the document containing the node
+ * @param inSchema Whether the node is a schema or part of one
+ * @param context The bundling state
+ * @returns The bundled node
+ */
+async function bundleNode(
+  node: any,
+  location: string,
+  inSchema: boolean,
+  context: BundleContext,
+): Promise<any> {
+  if (Array.isArray(node)) {
+    const items = []
+    for (const item of node) {
+      items.push(await bundleNode(item, location, inSchema, context))
+    }
+    return items
+  }
+
+  if (!node || typeof node !== 'object') {
+    return node
+  }
+
+  if (typeof node.$ref === 'string') {
+    return bundleRef(node.$ref, location, inSchema, context)
+  }
+
+  const bundled: Record<string, any> = {}
+  for (const [key, value] of Object.entries(node)) {
+    bundled[key] = await bundleNode(
+      value,
+      location,
+      inSchema || SCHEMA_KEYS.has(key),
+      context,
+    )
+  }
+  return bundled
+}
+
+/**
+ * Rewrites a single $ref: schemas are hoisted and referenced locally, other
+ * objects (parameters, responses, ...) are inlined
+ * @param ref The $ref value
+ * @param location The location of the document containing the $ref
+ * @param inSchema Whether the $ref appears in a schema position
+ * @param context The bundling state
+ * @returns The node replacing the $ref
+ */
+async function bundleRef(
+  ref: string,
+  location: string,
+  inSchema: boolean,
+  context: BundleContext,
+): Promise<any> {
+  const [file, pointer = ''] = ref.split('#')
+  const targetLocation = file ? resolveLocation(location, file) : location
+
+  // References into the root document stay local
+  if (targetLocation === context.rootLocation) {
+    return { $ref: `#${pointer}` }
+  }
+
+  if (inSchema || isSchemaPointer(pointer)) {
+    const name = await hoistSchema(ref, location, context)
+    return { $ref: `${context.schemaRefPrefix}${escapePointerToken(name)}` }
+  }
+
+  const target = await resolveRefTarget(ref, location, context)
+  if (context.inlining.includes(target.key)) {
+    throw new Error(
+      `Circular $ref detected: ${[...context.inlining, target.key].join(' -> ')}`,
+    )
+  }
+
+  context.inlining.push(target.key)
+  const inlined = await bundleNode(target.node, target.location, false, context)
+  context.inlining.pop()
+  return inlined
+}
+
+/**
+ * Hoists an external schema into the root schemas, reusing the name of a
+ * schema that was already hoisted from the same location
+ * @param ref The $ref value pointing to the schema
+ * @param location The location of the document containing the $ref
+ * @param context The bundling state
+ * @returns The name of the hoisted schema
+ */
+async function hoistSchema(
+  ref: string,
+  location: string,
+  context: BundleContext,
+): Promise<string> {
+  const target = await resolveRefTarget(ref, location, context)
+
+  const existing = context.hoisted.get(target.key)
+  if (existing) {
+    return existing
+  }
+
+  // Follow schemas that are nothing but another $ref to their final target
+  const aliasRef =
+    typeof target.node?.$ref === 'string' ? target.node.$ref : null
+  if (aliasRef && Object.keys(target.node).length === 1) {
+    if (context.inlining.includes(target.key)) {
+      throw new Error(
+        `Circular $ref detected: ${[...context.inlining, target.key].join(' -> ')}`,
+      )
+    }
+
+    context.inlining.push(target.key)
+    const bundled = await bundleRef(aliasRef, target.location, true, context)
+    context.inlining.pop()
+
+    const name = decodePointerToken(bundled.$ref.split('/').pop())
+    context.hoisted.set(target.key, name)
+    return name
+  }
+
+  const name = getUniqueName(getSchemaBaseName(target.key), context.usedNames)
+  // Registered before descending so that recursive schemas resolve to it
+  context.hoisted.set(target.key, name)
+  context.hoistedSchemas[name] = await bundleNode(
+    target.node,
+    target.location,
+    true,
+    context,
+  )
+
+  return name
+}
+
+/**
+ * Loads the document a $ref points to and resolves its JSON pointer
+ * @param ref The $ref value
+ * @param location The location of the document containing the $ref
+ * @param context The bundling state
+ * @returns The referenced node, its document location and a unique key
+ */
+async function resolveRefTarget(
+  ref: string,
+  location: string,
+  context: BundleContext,
+): Promise<{ node: any; location: string; key: string }> {
+  const [file, pointer = ''] = ref.split('#')
+  const targetLocation = file ? resolveLocation(location, file) : location
+
+  let document = context.documents.get(targetLocation)
+  if (document === undefined) {
+    document = await fetchSwaggerSpec(targetLocation)
+    context.documents.set(targetLocation, document)
+  }
+
+  let node = document
+  for (const token of pointer.split('/').filter(Boolean)) {
+    node = node?.[decodePointerToken(token)]
+    if (node === undefined) {
+      throw new Error(`Cannot resolve $ref "${ref}" from ${location}`)
+    }
+  }
+
+  return { node, location: targetLocation, key: `${targetLocation}#${pointer}` }
+}
+
+/**
+ * Returns the $ref of a schema that is nothing but an external reference
+ * @param schema The schema to check
+ * @returns The external $ref, or null
+ */
+function getExternalRef(schema: any): string | null {
+  if (
+    schema &&
+    typeof schema.$ref === 'string' &&
+    !schema.$ref.startsWith('#') &&
+    Object.keys(schema).length === 1
+  ) {
+    return schema.$ref
+  }
+  return null
+}
+
+/**
+ * Checks whether a JSON pointer points into a schema collection
+ * @param pointer The JSON pointer
+ * @returns True if the pointer targets a schema
+ */
+function isSchemaPointer(pointer: string): boolean {
+  return /^\/(components\/schemas|definitions)\//.test(pointer)
+}
+
+/**
+ * Derives a schema name from a $ref key: the last pointer token, or the file
+ * name for references to a whole document
+ * @param key The location#pointer key
+ * @returns The base name for the hoisted schema
+ */
+function getSchemaBaseName(key: string): string {
+  const [location, pointer] = key.split('#')
+  const tokens = pointer.split('/').filter(Boolean)
+  if (tokens.length > 0) {
+    return decodePointerToken(tokens[tokens.length - 1])
+  }
+
+  const pathname = /^https?:\/\//.test(location)
+    ? new URL(location).pathname
+    : location
+  return path.basename(pathname, path.extname(pathname))
+}
+
+/**
+ * Returns a name that is not used yet, appending a numeric suffix if needed
+ * @param baseName The preferred name
+ * @param usedNames The names already in use, updated with the result
+ * @returns The unique name
+ */
+function getUniqueName(baseName: string, usedNames: Set<string>): string {
+  let name = baseName
+  let suffix = 2
+  while (usedNames.has(name)) {
+    name = `${baseName}${suffix++}`
+  }
+  usedNames.add(name)
+  return name
+}
+
+/**
+ * Converts a URL or file path to an absolute location
+ * @param source The URL or file path
+ * @returns The absolute location
+ */
+function toAbsoluteLocation(source: string): string {
+  return isUrl(source) ? new URL(source).toString() : path.resolve(source)
+}
+
+/**
+ * Resolves a referenced file relative to the document that references it
+ * @param base The location of the referencing document
+ * @param file The referenced URL or relative path
+ * @returns The absolute location of the referenced document
+ */
+function resolveLocation(base: string, file: string): string {
+  if (isUrl(file)) {
+    return new URL(file).toString()
+  }
+  if (isUrl(base)) {
+    return new URL(file, base).toString()
+  }
+  return path.resolve(path.dirname(base), file)
+}
+
+/**
+ * Checks whether a location is an HTTP(S) URL
+ * @param location The location to check
+ * @returns True if the location is a URL
+ */
+function isUrl(location: string): boolean {
+  return location.startsWith('http://') || location.startsWith('https://')
+}
+
+/**
+ * Decodes a JSON pointer token
+ * @param token The encoded token
+ * @returns The decoded token
+ */
+function decodePointerToken(token: string): string {
+  return decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Encodes a JSON pointer token
+ * @param token The decoded token
+ * @returns The encoded token
+ */
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
@@ -0,0 +1,293 @@
+import { parseArgs } from 'util'
+import { EnumStyle, GeneratorJob, OperationFilter, OutputMode } from './types'
+import { CONFIG_FILE_NAMES } from './config'
+import { DiffFormat } from './differ'
+
+/**
+ * Parsed command line arguments
+ */
+export interface CliArgs {
+  help: boolean
+  config?: string
+  jobs: string[]
+  overrides: Partial<GeneratorJob>
+}
+
+/**
+ * Parses the command line arguments.
+ * Positional arguments are accepted as `<input> [output] [mode]` for
+ * compatibility with earlier versions.
+ * @param argv The arguments after the script name
+ * @returns The parsed arguments
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      input: { type: 'string', short: 'i' },
+      output: { type: 'string', short: 'o' },
+      config: { type: 'string', short: 'c' },
+      job: { type: 'string', short: 'j', multiple: true },
+      'output-mode': { type: 'string', short: 'm' },
+      zod: { type: 'boolean' },
+      'validate-responses': { type: 'boolean' },
+      'enum-style': { type: 'string' },
+      'wire-types': { type: 'boolean' },
+      factories: { type: 'boolean' },
+      mocks: { type: 'boolean' },
+      'query-hooks': { type: 'boolean' },
+      'ignore-validation-errors': { type: 'boolean' },
+      'include-tag': { type: 'string', multiple: true },
+      'exclude-tag': { type: 'string', multiple: true },
+      'include-path': { type: 'string', multiple: true },
+      'exclude-path': { type: 'string', multiple: true },
+      'include-operation': { type: 'string', multiple: true },
+      'exclude-operation': { type: 'string', multiple: true },
+      'include-method': { type: 'string', multiple: true },
+      'exclude-method': { type: 'string', multiple: true },
+      'exclude-deprecated': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const [inputArg, outputArg, modeArg] = positionals
+  const overrides: Partial<GeneratorJob> = {}
+
+  const input = values.input || inputArg
+  if (input) overrides.input = input
+
+  const output = values.output || outputArg
+  if (output) overrides.output = output
+
+  const outputMode = values['output-mode'] || modeArg
+  if (outputMode) overrides.outputMode = outputMode as OutputMode
+
+  if (values.zod) overrides.zodSchemas = true
+  if (values['validate-responses']) overrides.validateResponses = true
+  if (values['wire-types']) overrides.wireTypes = true
+  if (values.factories) overrides.factories = true
+  if (values.mocks) overrides.mocks = true
+  if (values['query-hooks']) overrides.queryHooks = true
+  if (values['ignore-validation-errors']) {
+    overrides.ignoreValidationErrors = true
+  }
+
+  const enumStyle = values['enum-style']
+  if (enumStyle) overrides.enumStyle = enumStyle as EnumStyle
+
+  const include = toOperationFilter({
+    tags: values['include-tag'],
+    paths: values['include-path'],
+    operationIds: values['include-operation'],
+    methods: values['include-method'],
+  })
+  if (include) overrides.include = include
+
+  const exclude = toOperationFilter(
+    {
+      tags: values['exclude-tag'],
+      paths: values['exclude-path'],
+      operationIds: values['exclude-operation'],
+      methods: values['exclude-method'],
+    },
+    values['exclude-deprecated'],
+  )
+  if (exclude) overrides.exclude = exclude
+
+  return {
+    help: values.help || false,
+    config: values.config,
+    jobs: values.job || [],
+    overrides,
+  }
+}
+
+/**
+ * Builds an operation filter from the values of the repeatable filter
+ * flags, each of which also takes a comma-separated list
+ * @param lists The flag values per criterion
+ * @param deprecated Whether deprecated operations are matched
+ * @returns The filter, or undefined when no flag was given
+ */
+function toOperationFilter(
+  lists: Record<
+    'tags' | 'paths' | 'operationIds' | 'methods',
+    string[] | undefined
+  >,
+  deprecated?: boolean,
+): OperationFilter | undefined {
+  const filter: OperationFilter = {}
+  for (const [criterion, values] of Object.entries(lists)) {
+    if (values) {
+      filter[criterion as keyof typeof lists] = values
+        .flatMap((value) => value.split(','))
+        .map((value) => value.trim())
+        .filter((value) => value !== '')
+    }
+  }
+  if (deprecated) filter.deprecated = true
+
+  return Object.keys(filter).length > 0 ? filter : undefined
+}
+
+/**
+ * Parsed arguments of the diff command
+ */
+export interface DiffArgs {
+  help: boolean
+  /** The previous version of the specification */
+  oldSpec?: string
+  /** The new version of the specification */
+  newSpec?: string
+  format: DiffFormat
+}
+
+/**
+ * Parses the arguments of the diff command: `<old> <new> [--format <format>]`
+ * @param argv The arguments after the command name
+ * @returns The parsed arguments
+ */
+export function parseDiffArgs(argv: string[]): DiffArgs {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const format = values.format || 'text'
+  if (format !== 'text' && format !== 'json') {
+    throw new Error(`Unknown format "${format}", expected "text" or "json"`)
+  }
+
+  const [oldSpec, newSpec] = positionals
+  return {
+    help: values.help || false,
+    oldSpec,
+    newSpec,
+    format,
+  }
+}
+
+/**
+ * Parsed arguments of the mock command
+ */
+export interface MockArgs {
+  help: boolean
+  /** The specification to serve */
+  spec?: string
+  port: number
+}
+
+/**
+ * Parses the arguments of the mock command: `<spec> [--port <port>]`
+ * @param argv The arguments after the command name
+ * @returns The parsed arguments
+ */
+export function parseMockArgs(argv: string[]): MockArgs {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      port: { type: 'string', short: 'p' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const port = Number(values.port || 4010)
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${values.port}"`)
+  }
+
+  return {
+    help: values.help || false,
+    spec: positionals[0],
+    port,
+  }
+}
+
+/**
+ * Prints the command line usage
+ */
+export function printHelp(): void {
+  console.log(`Usage: swagger-gen [options]
+       swagger-gen diff <old> <new> [options]
+       swagger-gen mock <spec> [options]
+
+Generates TypeScript types and API client classes from a Swagger/OpenAPI
+specification (JSON or YAML, local file or URL).
+
+Options:
+  -i, --input <url|path>     Specification to generate from
+  -o, --output <path>        Output file, or directory in multi mode
+                             (default: ./src/generated/api-types.ts)
+  -m, --output-mode <mode>   "single" (default) or "multi"
+      --zod                  Emit zod schemas for all models
+      --validate-responses   Validate JSON responses with the zod schemas
+                             (implies --zod)
+      --enum-style <style>   "enum" (default), "union" or "const"
+      --wire-types           Type dates as strings and int64 as numbers
+                             instead of reviving them to Date and bigint
+      --factories            Generate a seedable build<Model>() factory for
+                             every object model
+      --mocks                Also generate MSW request handlers returning
+                             example responses
+      --query-hooks          Also generate TanStack Query keys and hooks
+      --ignore-validation-errors
+                             Generate even if the specification has errors
+      --include-tag <tags>   Only generate the operations with one of the tags
+      --include-path <globs> Only generate the operations whose path matches
+                             a glob, e.g. /pets/**
+      --include-operation <globs>
+                             Only generate the operations whose operationId
+                             matches a glob, e.g. get*
+      --include-method <methods>
+                             Only generate the operations with one of the
+                             HTTP methods
+      --exclude-tag, --exclude-path, --exclude-operation, --exclude-method
+                             Leave out the operations matching any of these
+      --exclude-deprecated   Leave out deprecated operations
+  -c, --config <path>        Config file (default: the first of
+                             ${CONFIG_FILE_NAMES.join(', ')})
+  -j, --job <name>           Only run the named config job (repeatable)
+  -h, --help                 Show this help
+
+Without --input, the jobs from the config file are run. Options given on
+the command line override the config file. The filter options are
+repeatable and take comma-separated lists.
+
+Run "swagger-gen diff --help" for comparing two specifications and
+"swagger-gen mock --help" for serving example responses.`)
+}
+
+/**
+ * Prints the usage of the diff command
+ */
+export function printDiffHelp(): void {
+  console.log(`Usage: swagger-gen diff <old> <new> [options]
+
+Compares two versions of a Swagger/OpenAPI specification and reports
+breaking and non-breaking changes. Exits with code 1 when a change breaks
+the generated client.
+
+Options:
+  -f, --format <format>      "text" (default) or "json"
+  -h, --help                 Show this help`)
+}
+
+/**
+ * Prints the usage of the mock command
+ */
+export function printMockHelp(): void {
+  console.log(`Usage: swagger-gen mock <spec> [options]
+
+Starts an HTTP server answering every operation of a Swagger/OpenAPI
+specification with the example responses of the generated MSW handlers.
+
+Options:
+  -p, --port <port>          Port to listen on (default: 4010)
+  -h, --help                 Show this help`)
+}
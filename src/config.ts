@@ -0,0 +1,301 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  GenerationOptions,
+  GeneratorConfig,
+  GeneratorJob,
+  NamingStrategy,
+  OperationFilter,
+} from './types'
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = [
+  'swagger-gen.config.ts',
+  'swagger-gen.config.js',
+  'swagger-gen.config.json',
+]
+
+/**
+ * Output path used when neither the CLI nor the config file names one
+ */
+const DEFAULT_OUTPUT = './src/generated/api-types.ts'
+
+/**
+ * Generation options that are on/off switches
+ */
+const BOOLEAN_OPTIONS = [
+  'zodSchemas',
+  'validateResponses',
+  'wireTypes',
+  'factories',
+  'mocks',
+  'queryHooks',
+  'ignoreValidationErrors',
+] as const
+
+/**
+ * Criteria of operation filters that list strings
+ */
+const FILTER_LISTS = ['tags', 'paths', 'operationIds', 'methods']
+
+/**
+ * Callbacks of a naming strategy
+ */
+const NAMING_CALLBACKS = ['type', 'property', 'method', 'apiClass']
+
+/**
+ * Loads the generator config file
+ * @param configPath Explicit path to the config file; when omitted the
+ * default file names are looked up in the working directory
+ * @returns The config with paths resolved relative to the config file, or
+ * null if no config file was given or found
+ */
+export function loadConfig(configPath?: string): GeneratorConfig | null {
+  const resolvedPath = configPath
+    ? path.resolve(configPath)
+    : CONFIG_FILE_NAMES.map((name) => path.resolve(name)).find((file) =>
+        fs.existsSync(file),
+      )
+
+  if (!resolvedPath) {
+    return null
+  }
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Config file not found: ${resolvedPath}`)
+  }
+
+  let config: GeneratorConfig
+  try {
+    config = readConfigFile(resolvedPath)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw new Error(
+      `Failed to load config file ${resolvedPath}: ${errorMessage}`,
+    )
+  }
+
+  return resolveConfigPaths(config, path.dirname(resolvedPath))
+}
+
+/**
+ * Builds the list of jobs to run from the config file and CLI overrides
+ * @param config The loaded config, if any
+ * @param overrides Input, output and options given on the command line
+ * @param jobNames Names of the config jobs to run; all jobs when empty
+ * @returns The jobs to run
+ */
+export function resolveJobs(
+  config: GeneratorConfig | null,
+  overrides: Partial<GeneratorJob>,
+  jobNames: string[] = [],
+): GeneratorJob[] {
+  const { jobs = [], input, output, ...sharedOptions } = config || {}
+  const {
+    input: inputOverride,
+    output: outputOverride,
+    ...cliOptions
+  } = overrides
+
+  // An input on the command line is an ad-hoc job that only takes the
+  // shared options from the config file
+  const singleInput = inputOverride || input
+  if (inputOverride || (singleInput && jobs.length === 0)) {
+    const job: GeneratorJob = {
+      ...sharedOptions,
+      ...cliOptions,
+      input: singleInput!,
+      output: outputOverride || output || DEFAULT_OUTPUT,
+    }
+    validateJob(job)
+    return [job]
+  }
+
+  const selectedJobs =
+    jobNames.length > 0
+      ? jobNames.map((name) => {
+          const job = jobs.find((candidate) => candidate.name === name)
+          if (!job) {
+            throw new Error(`Unknown job "${name}" in config file`)
+          }
+          return job
+        })
+      : jobs
+
+  return selectedJobs.map((job) => {
+    const resolved: GeneratorJob = {
+      ...sharedOptions,
+      ...job,
+      ...cliOptions,
+    }
+    validateJob(resolved)
+    return resolved
+  })
+}
+
+/**
+ * Reads and evaluates a config file based on its extension
+ * @param configPath Absolute path to the config file
+ * @returns The raw config
+ */
+function readConfigFile(configPath: string): GeneratorConfig {
+  if (configPath.endsWith('.json')) {
+    return JSON.parse(fs.readFileSync(configPath, 'utf8'))
+  }
+
+  if (configPath.endsWith('.ts') && !require.extensions['.ts']) {
+    // TypeScript configs are compiled on the fly, as for `npm run generate`;
+    // ts-node is an optional peer dependency of the installed package
+    let tsNode: typeof import('ts-node')
+    try {
+      tsNode = require('ts-node')
+    } catch {
+      throw new Error(
+        'TypeScript config files need ts-node; install it with `npm install --save-dev ts-node`, or use a .js or .json config',
+      )
+    }
+    tsNode.register({ transpileOnly: true })
+  }
+
+  const loaded = require(configPath)
+  return loaded.default || loaded
+}
+
+/**
+ * Resolves the local input and output paths of a config relative to the
+ * directory holding the config file
+ * @param config The raw config
+ * @param baseDir The directory of the config file
+ * @returns The config with absolute paths
+ */
+function resolveConfigPaths(
+  config: GeneratorConfig,
+  baseDir: string,
+): GeneratorConfig {
+  const resolveInput = (input?: string) =>
+    input && !/^https?:\/\//.test(input) ? path.resolve(baseDir, input) : input
+  const resolveOutput = (output?: string) =>
+    output ? path.resolve(baseDir, output) : output
+
+  return {
+    ...config,
+    input: resolveInput(config.input),
+    output: resolveOutput(config.output),
+    jobs: config.jobs?.map((job) => ({
+      ...job,
+      input: resolveInput(job.input)!,
+      output: resolveOutput(job.output)!,
+    })),
+  }
+}
+
+/**
+ * Checks that a job has everything it needs and valid option values
+ * @param job The job to validate
+ */
+function validateJob(job: GeneratorJob): void {
+  const label = job.name ? `Job "${job.name}"` : 'Job'
+
+  if (!job.input) {
+    throw new Error(`${label} has no input specification`)
+  }
+  if (!job.output) {
+    throw new Error(`${label} has no output path`)
+  }
+
+  validateOptions(job, label)
+}
+
+/**
+ * Checks the values of the generation options
+ * @param options The generation options
+ * @param label Describes where the options come from, for error messages
+ */
+function validateOptions(options: GenerationOptions, label: string): void {
+  if (
+    options.outputMode !== undefined &&
+    options.outputMode !== 'single' &&
+    options.outputMode !== 'multi'
+  ) {
+    throw new Error(
+      `${label}: unknown output mode "${options.outputMode}", expected "single" or "multi"`,
+    )
+  }
+
+  if (
+    options.enumStyle !== undefined &&
+    !['enum', 'union', 'const'].includes(options.enumStyle)
+  ) {
+    throw new Error(
+      `${label}: unknown enum style "${options.enumStyle}", expected "enum", "union" or "const"`,
+    )
+  }
+
+  for (const flag of BOOLEAN_OPTIONS) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+      throw new Error(`${label}: option "${flag}" must be a boolean`)
+    }
+  }
+
+  for (const key of ['include', 'exclude'] as const) {
+    if (options[key] !== undefined) {
+      validateFilter(options[key], `${label}: option "${key}"`)
+    }
+  }
+
+  if (options.naming !== undefined) {
+    validateNaming(options.naming, `${label}: option "naming"`)
+  }
+}
+
+/**
+ * Checks the criteria of an include or exclude filter
+ * @param filter The operation filter
+ * @param label Describes where the filter comes from, for error messages
+ */
+function validateFilter(filter: OperationFilter, label: string): void {
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    throw new Error(`${label} must be an object`)
+  }
+
+  for (const [criterion, value] of Object.entries(filter)) {
+    if (criterion === 'deprecated') {
+      if (typeof value !== 'boolean') {
+        throw new Error(`${label}: "deprecated" must be a boolean`)
+      }
+    } else if (!FILTER_LISTS.includes(criterion)) {
+      throw new Error(
+        `${label}: unknown criterion "${criterion}", expected one of ${FILTER_LISTS.join(', ')} or deprecated`,
+      )
+    } else if (
+      !Array.isArray(value) ||
+      value.some((item) => typeof item !== 'string')
+    ) {
+      throw new Error(`${label}: "${criterion}" must be an array of strings`)
+    }
+  }
+}
+
+/**
+ * Checks the callbacks of a naming strategy
+ * @param naming The naming strategy
+ * @param label Describes where the strategy comes from, for error messages
+ */
+function validateNaming(naming: NamingStrategy, label: string): void {
+  if (typeof naming !== 'object' || naming === null || Array.isArray(naming)) {
+    throw new Error(`${label} must be an object`)
+  }
+
+  for (const [callback, value] of Object.entries(naming)) {
+    if (!NAMING_CALLBACKS.includes(callback)) {
+      throw new Error(
+        `${label}: unknown callback "${callback}", expected one of ${NAMING_CALLBACKS.join(', ')}`,
+      )
+    }
+    if (typeof value !== 'function') {
+      throw new Error(`${label}: "${callback}" must be a function`)
+    }
+  }
+}
@@ -0,0 +1,637 @@
+import { ApiSchema, TypeDefinitions } from './types'
+import { getMapValueSchemas, isMapSchema, isRegExp } from './map-types'
+import { toPropertyName } from './naming'
+
+/**
+ * Revivers turn JSON values into the Date and bigint values the generated
+ * types declare; serializers turn dates back into their wire format. Both
+ * rename the properties the naming strategy renames
+ */
+export type ConverterDirection = 'revive' | 'serialize'
+
+/**
+ * State shared while generating the converters of a specification
+ */
+export interface ConverterContext {
+  schemas: Record<string, ApiSchema>
+  typeDefinitions: TypeDefinitions
+  /** Whether dates and int64 values are converted, unlike wire types */
+  scalars: boolean
+  /** The component schemas containing values to convert, per direction */
+  convertible: Record<ConverterDirection, Set<string>>
+  /** The component schemas containing int64 values */
+  int64: Set<string>
+}
+
+/**
+ * Creates the converter context, finding the component schemas that
+ * contain values to convert, directly or through references
+ * @param schemas The component schemas of the specification
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param scalars Whether dates and int64 values are converted; renamed
+ * properties are converted either way
+ * @returns The converter context
+ */
+export function createConverterContext(
+  schemas: Record<string, ApiSchema>,
+  typeDefinitions: TypeDefinitions,
+  scalars = true,
+): ConverterContext {
+  const toPredicate = (direction: ConverterDirection) => (schema: ApiSchema) =>
+    (scalars && isConvertibleScalar(direction, schema)) ||
+    hasRenamedProperties(schema)
+
+  return {
+    schemas,
+    typeDefinitions,
+    scalars,
+    convertible: {
+      revive: findMatchingSchemas(schemas, toPredicate('revive')),
+      serialize: findMatchingSchemas(schemas, toPredicate('serialize')),
+    },
+    int64: scalars
+      ? findMatchingSchemas(schemas, isInt64Schema)
+      : new Set<string>(),
+  }
+}
+
+/**
+ * Checks whether a schema contains int64 values, whose JSON must be parsed
+ * with parseJson to keep integers beyond Number.MAX_SAFE_INTEGER exact
+ * @param schema The schema to check
+ * @param context The converter context
+ * @returns True if the schema contains int64 values
+ */
+export function containsInt64(
+  schema: ApiSchema,
+  context: ConverterContext,
+): boolean {
+  return (
+    context.scalars && containsMatching(schema, isInt64Schema, context.int64)
+  )
+}
+
+/**
+ * Generates the expression converting a value of a schema, and adds the
+ * converter functions it calls to the converters
+ * @param direction Whether to revive or serialize the value
+ * @param schema The schema of the value
+ * @param value The expression of the value to convert
+ * @param context The converter context
+ * @param dependencies The dependencies of the definition using the expression
+ * @returns The expression, or null if the schema holds nothing to convert
+ */
+export function toConverterExpression(
+  direction: ConverterDirection,
+  schema: ApiSchema,
+  value: string,
+  context: ConverterContext,
+  dependencies: string[],
+): string | null {
+  if (
+    !containsMatching(
+      schema,
+      (child) =>
+        (context.scalars && isConvertibleScalar(direction, child)) ||
+        hasRenamedProperties(child),
+      context.convertible[direction],
+    )
+  ) {
+    return null
+  }
+
+  if (schema.reference) {
+    const target = context.schemas[schema.reference]
+    return toConverterCall(
+      direction,
+      schema.reference,
+      target,
+      value,
+      context,
+      dependencies,
+    )
+  }
+
+  if (context.scalars && isConvertibleScalar(direction, schema)) {
+    return toScalarExpression(direction, schema, value)
+  }
+
+  if (
+    schema.type === 'array' &&
+    schema.items &&
+    Object.keys(schema.properties).length === 0
+  ) {
+    const itemExpression = toConverterExpression(
+      direction,
+      schema.items,
+      'item',
+      context,
+      dependencies,
+    )
+    return `Array.isArray(${value}) ? ${value}.map((item: any) => ${itemExpression}) : ${value}`
+  }
+
+  // Objects and compositions are generated as named types
+  return toConverterCall(
+    direction,
+    schema.name,
+    schema,
+    value,
+    context,
+    dependencies,
+  )
+}
+
+/**
+ * Builds the call of the converter function of a named type, generating
+ * the function if it does not exist yet
+ * @param direction Whether to revive or serialize the value
+ * @param typeName The name of the generated type
+ * @param schema The schema of the type
+ * @param value The expression of the value to convert
+ * @param context The converter context
+ * @param dependencies The dependencies of the definition using the call
+ * @returns The call expression
+ */
+function toConverterCall(
+  direction: ConverterDirection,
+  typeName: string,
+  schema: ApiSchema,
+  value: string,
+  context: ConverterContext,
+  dependencies: string[],
+): string {
+  const name = `${direction}${typeName}`
+  if (!dependencies.includes(name)) {
+    dependencies.push(name)
+  }
+
+  const converters = context.typeDefinitions.converters
+  if (!converters.some((converter) => converter.name === name)) {
+    // Registered before descending so that recursive schemas find it
+    const converter = { name, content: '', dependencies: [typeName] }
+    converters.push(converter)
+    converter.content = generateConverterFunction(
+      direction,
+      name,
+      typeName,
+      schema,
+      context,
+      converter.dependencies,
+    )
+  }
+
+  return `${name}(${value})`
+}
+
+/**
+ * Generates the converter function of a named type
+ * @param direction Whether to revive or serialize values
+ * @param name The function name
+ * @param typeName The name of the generated type
+ * @param schema The schema of the type
+ * @param context The converter context
+ * @param dependencies The dependencies of the function
+ * @returns The function declaration
+ */
+function generateConverterFunction(
+  direction: ConverterDirection,
+  name: string,
+  typeName: string,
+  schema: ApiSchema,
+  context: ConverterContext,
+  dependencies: string[],
+): string {
+  const signature =
+    direction === 'revive'
+      ? `${name}(value: any): ${typeName}`
+      : `${name}(value: ${typeName}): any`
+
+  let content = `/**\n`
+  if (!context.scalars) {
+    content +=
+      direction === 'revive'
+        ? ` * Renames the properties of parsed ${typeName} JSON\n`
+        : ` * Renames the properties of ${typeName} data to their JSON names\n`
+  } else {
+    content +=
+      direction === 'revive'
+        ? ` * Revives the dates and int64 values in parsed ${typeName} JSON\n`
+        : ` * Converts the dates in ${typeName} data to their JSON format\n`
+    if (hasRenamedProperties(schema)) {
+      content += ` * and renames its properties\n`
+    }
+  }
+  content += ` */\n`
+  content += `export function ${signature} {\n`
+
+  const properties = Object.entries(schema.properties)
+  const members = schema.allOf || schema.oneOf || schema.anyOf
+
+  if (!schema.reference && (properties.length > 0 || isMapSchema(schema))) {
+    const renamed = properties
+      .map(([propName]) => [propName, toPropertyName(schema, propName)])
+      .filter(([propName, name]) => propName !== name)
+
+    content += `  if (value == null || typeof value !== 'object') return value;\n`
+    if (direction === 'revive' && renamed.length > 0) {
+      content += generateRenaming(renamed, 'value', 'result')
+    } else {
+      content += `  const result: any = { ...value };\n`
+    }
+    for (const [propName, propSchema] of properties) {
+      const access = toAccess('result', toPropertyName(schema, propName))
+      const expression = toConverterExpression(
+        direction,
+        propSchema,
+        access,
+        context,
+        dependencies,
+      )
+      if (expression) {
+        content += `  if (${access} != null) ${access} = ${expression};\n`
+      }
+    }
+    content += generateMapValueConversion(
+      direction,
+      schema,
+      context,
+      dependencies,
+    )
+    if (direction === 'serialize' && renamed.length > 0) {
+      content += generateRenaming(
+        renamed.map(([propName, name]) => [name, propName]),
+        'result',
+        'json',
+      )
+      content += `  return json;\n`
+    } else {
+      content += `  return result;\n`
+    }
+  } else if (!schema.reference && schema.allOf) {
+    // A value has the shape of every member, so each converts its own values
+    content += `  let result: any = value;\n`
+    for (const member of schema.allOf) {
+      const expression = toConverterExpression(
+        direction,
+        member,
+        'result',
+        context,
+        dependencies,
+      )
+      if (expression) {
+        content += `  result = ${expression};\n`
+      }
+    }
+    content += `  return result;\n`
+  } else if (!schema.reference && members) {
+    // A value has the shape of one member: the first one selected by the
+    // discriminator or, failing that, by the shape of the value
+    const mapping = schema.discriminator?.mapping || {}
+    const isMapped = (member: ApiSchema) =>
+      Object.values(mapping).some((target) => target === member.reference)
+    const branches = [
+      ...members.filter(isMapped),
+      ...members.filter((member) => !isMapped(member)),
+    ].map((member) => ({
+      condition: toMemberCondition(direction, schema, member, context),
+      expression: toConverterExpression(
+        direction,
+        member,
+        'value',
+        context,
+        dependencies,
+      ),
+    }))
+    for (const { condition, expression } of branches) {
+      // Members are not narrowed to their discriminator values
+      const statement =
+        expression && direction === 'revive'
+          ? `return ${expression} as ${typeName};`
+          : `return ${expression || 'value'};`
+      if (!condition) {
+        content += `  ${statement}\n`
+        break
+      }
+      content += `  if (${condition}) ${statement}\n`
+    }
+    if (!branches.some(({ condition }) => !condition)) {
+      content += `  return value;\n`
+    }
+  } else {
+    const expression = toConverterExpression(
+      direction,
+      { ...schema, name: `${typeName}Value` },
+      'value',
+      context,
+      dependencies,
+    )
+    content += `  return ${expression || 'value'};\n`
+  }
+
+  content += `}`
+
+  return content
+}
+
+/**
+ * Builds the condition selecting the member of a oneOf/anyOf union a value
+ * belongs to: its discriminator values when the mapping names the member,
+ * otherwise a check of the value's type and required properties
+ * @param direction Whether to revive or serialize values
+ * @param union The union schema
+ * @param member The member schema
+ * @param context The converter context
+ * @returns The condition on `value`, or null if any value matches
+ */
+function toMemberCondition(
+  direction: ConverterDirection,
+  union: ApiSchema,
+  member: ApiSchema,
+  context: ConverterContext,
+): string | null {
+  if (union.discriminator && member.reference) {
+    const { propertyName, mapping } = union.discriminator
+    const values = Object.keys(mapping).filter(
+      (value) => mapping[value] === member.reference,
+    )
+    if (values.length > 0) {
+      return values
+        .map(
+          (value) =>
+            `value?.[${JSON.stringify(propertyName)}] === ${JSON.stringify(value)}`,
+        )
+        .join(' || ')
+    }
+  }
+
+  const target = member.reference
+    ? context.schemas[member.reference] || member
+    : member
+  const type = (target.type || '').toLowerCase()
+  if (
+    type === 'object' ||
+    Object.keys(target.properties).length > 0 ||
+    isMapSchema(target)
+  ) {
+    // Serializers receive the properties under their generated names
+    const required = target.required.map(
+      (name) =>
+        ` && ${JSON.stringify(direction === 'serialize' ? toPropertyName(target, name) : name)} in value`,
+    )
+    return `value != null && typeof value === 'object' && !Array.isArray(value)${required.join('')}`
+  }
+  if (type === 'array') {
+    return 'Array.isArray(value)'
+  }
+  if (type === 'string') {
+    const isDate = target.format === 'date' || target.format === 'date-time'
+    return isDate && direction === 'serialize' && context.scalars
+      ? 'value instanceof Date'
+      : `typeof value === 'string'`
+  }
+  if (type === 'integer' || type === 'number') {
+    return target.format === 'int64' && direction === 'revive'
+      ? `typeof value === 'number' || typeof value === 'string' || typeof value === 'bigint'`
+      : `typeof value === 'number'`
+  }
+  if (type === 'boolean') {
+    return `typeof value === 'boolean'`
+  }
+  return null
+}
+
+/**
+ * Generates the statements copying an object with some properties renamed
+ * @param renamed The renamed properties, as pairs of the source and the
+ * target name
+ * @param source The variable holding the object to copy
+ * @param target The variable to declare for the copy
+ * @returns The statements
+ */
+function generateRenaming(
+  renamed: string[][],
+  source: string,
+  target: string,
+): string {
+  const bindings = renamed.map(
+    ([from], index) => `${JSON.stringify(from)}: _${index}`,
+  )
+  let content = `  const { ${bindings.join(', ')}, ...${target} }: any = ${source};\n`
+  renamed.forEach(([, to], index) => {
+    content += `  if (_${index} !== undefined) ${toAccess(target, to)} = _${index};\n`
+  })
+  return content
+}
+
+/**
+ * Builds the expression accessing a property of an object
+ * @param object The expression of the object
+ * @param name The property name
+ * @returns The property access expression
+ */
+function toAccess(object: string, name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name)
+    ? `${object}.${name}`
+    : `${object}[${JSON.stringify(name)}]`
+}
+
+/**
+ * Checks whether the naming strategy renames any property of a schema
+ * @param schema The schema to check
+ * @returns True if a declared property has another generated name
+ */
+function hasRenamedProperties(schema: ApiSchema): boolean {
+  return Object.keys(schema.properties).some(
+    (name) => toPropertyName(schema, name) !== name,
+  )
+}
+
+/**
+ * Generates the loop converting the values of the properties an object
+ * does not declare: those whose names match a pattern with the pattern's
+ * schema, the others with the additionalProperties schema
+ * @param direction Whether to revive or serialize values
+ * @param schema The object or map schema
+ * @param context The converter context
+ * @param dependencies The dependencies of the function
+ * @returns The statements, empty when no value needs converting
+ */
+function generateMapValueConversion(
+  direction: ConverterDirection,
+  schema: ApiSchema,
+  context: ConverterContext,
+  dependencies: string[],
+): string {
+  const toExpression = (valueSchema: ApiSchema) =>
+    toConverterExpression(
+      direction,
+      valueSchema,
+      'result[key]',
+      context,
+      dependencies,
+    )
+
+  const additional =
+    typeof schema.additionalProperties === 'object' &&
+    schema.additionalProperties
+      ? toExpression(schema.additionalProperties)
+      : null
+  const patterns = Object.entries(schema.patternProperties)
+    .filter(([pattern]) => isRegExp(pattern))
+    .map(([pattern, valueSchema]) => ({
+      test: `new RegExp(${JSON.stringify(pattern)}, 'u').test(key)`,
+      expression: toExpression(valueSchema),
+    }))
+  if (!additional && !patterns.some((pattern) => pattern.expression)) {
+    return ''
+  }
+
+  const skipped = [
+    ...Object.keys(schema.properties).map(
+      (name) => `key === ${JSON.stringify(toPropertyName(schema, name))}`,
+    ),
+    'result[key] == null',
+  ]
+  let content = `  for (const key of Object.keys(result)) {\n`
+  content += `    if (${skipped.join(' || ')}) continue;\n`
+  for (const { test, expression } of patterns) {
+    if (!expression && !additional) continue
+    content += expression
+      ? `    if (${test}) {\n      result[key] = ${expression};\n      continue;\n    }\n`
+      : `    if (${test}) continue;\n`
+  }
+  if (additional) {
+    content += `    result[key] = ${additional};\n`
+  }
+  content += `  }\n`
+
+  return content
+}
+
+/**
+ * Generates the expression converting a date or int64 value
+ * @param direction Whether to revive or serialize the value
+ * @param schema The scalar schema
+ * @param value The expression of the value to convert
+ * @returns The expression
+ */
+function toScalarExpression(
+  direction: ConverterDirection,
+  schema: ApiSchema,
+  value: string,
+): string {
+  if (schema.format === 'int64') {
+    // parseJson already reads integers beyond Number.MAX_SAFE_INTEGER as
+    // bigint; smaller ones and strings are exact as well
+    return `typeof ${value} === 'number' || typeof ${value} === 'string' ? BigInt(${value}) : ${value}`
+  }
+
+  if (direction === 'revive') {
+    return `typeof ${value} === 'string' ? new Date(${value}) : ${value}`
+  }
+
+  return schema.format === 'date'
+    ? `${value} instanceof Date ? ${value}.toISOString().slice(0, 10) : ${value}`
+    : `${value} instanceof Date ? ${value}.toISOString() : ${value}`
+}
+
+/**
+ * Checks whether a schema is a date, or an int64 value when reviving
+ * @param direction Whether to revive or serialize values
+ * @param schema The schema to check
+ * @returns True if the schema itself holds a value to convert
+ */
+function isConvertibleScalar(
+  direction: ConverterDirection,
+  schema: ApiSchema,
+): boolean {
+  if (schema.reference || (schema.enum && schema.enum.length > 0)) {
+    return false
+  }
+
+  const type = (schema.type || '').toLowerCase()
+  if (type === 'string') {
+    return schema.format === 'date' || schema.format === 'date-time'
+  }
+
+  // bigint values are written by toJson, so only reviving needs them
+  return (
+    direction === 'revive' &&
+    (type === 'integer' || type === 'number') &&
+    schema.format === 'int64'
+  )
+}
+
+/**
+ * Checks whether a schema is an int64 number
+ * @param schema The schema to check
+ * @returns True if the schema itself is an int64 value
+ */
+function isInt64Schema(schema: ApiSchema): boolean {
+  const type = (schema.type || '').toLowerCase()
+  return (
+    !schema.reference &&
+    (type === 'integer' || type === 'number') &&
+    schema.format === 'int64'
+  )
+}
+
+/**
+ * Checks whether a schema or any schema within it matches a predicate
+ * @param schema The schema to check
+ * @param matches The predicate on a single schema
+ * @param found The component schemas known to contain a match
+ * @returns True if the schema contains a match
+ */
+function containsMatching(
+  schema: ApiSchema,
+  matches: (schema: ApiSchema) => boolean,
+  found: Set<string>,
+): boolean {
+  if (schema.reference) {
+    return found.has(schema.reference)
+  }
+
+  const children = [
+    ...Object.values(schema.properties),
+    ...(schema.items ? [schema.items] : []),
+    ...(schema.allOf || []),
+    ...(schema.oneOf || []),
+    ...(schema.anyOf || []),
+    ...getMapValueSchemas(schema),
+  ]
+
+  return (
+    matches(schema) ||
+    children.some((child) => containsMatching(child, matches, found))
+  )
+}
+
+/**
+ * Finds the component schemas containing a schema that matches a predicate.
+ * Repeated until nothing changes, so that references in cycles are
+ * resolved as well
+ * @param schemas The component schemas
+ * @param matches The predicate on a single schema
+ * @returns The names of the matching component schemas
+ */
+function findMatchingSchemas(
+  schemas: Record<string, ApiSchema>,
+  matches: (schema: ApiSchema) => boolean,
+): Set<string> {
+  const found = new Set<string>()
+
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const [name, schema] of Object.entries(schemas)) {
+      if (!found.has(name) && containsMatching(schema, matches, found)) {
+        found.add(name)
+        changed = true
+      }
+    }
+  }
+
+  return found
+}
@@ -0,0 +1,597 @@
+import { ApiEndpoint, ApiParameter, ApiSchema, ParsedSpec } from './types'
+import { getMapValueSchemas } from './map-types'
+
+/**
+ * Breaking changes require changes to code using the generated client;
+ * non-breaking changes only add to it
+ */
+export type ChangeSeverity = 'breaking' | 'non-breaking'
+
+/**
+ * The formats the diff report can be printed in
+ */
+export type DiffFormat = 'text' | 'json'
+
+/**
+ * A difference between two versions of a specification
+ */
+export interface SpecChange {
+  severity: ChangeSeverity
+  /** Where the change happened, e.g. `GET /pets/{id}` or `Pet.name` */
+  location: string
+  message: string
+}
+
+/**
+ * Whether a schema describes data sent to the API, received from it, or both
+ */
+interface SchemaUsage {
+  request: boolean
+  response: boolean
+}
+
+/**
+ * Compares two parsed specifications and classifies their differences
+ * @param oldSpec The previous version of the specification
+ * @param newSpec The new version of the specification
+ * @returns The changes, breaking ones first
+ */
+export function diffSpecs(
+  oldSpec: ParsedSpec,
+  newSpec: ParsedSpec,
+): SpecChange[] {
+  const changes: SpecChange[] = []
+
+  const oldEndpoints = collectEndpoints(oldSpec)
+  const newEndpoints = collectEndpoints(newSpec)
+  for (const [key, oldEndpoint] of Object.entries(oldEndpoints)) {
+    const newEndpoint = newEndpoints[key]
+    if (!newEndpoint) {
+      changes.push(breaking(key, 'endpoint removed'))
+    } else {
+      diffEndpoints(key, oldEndpoint, newEndpoint, changes)
+    }
+  }
+  for (const key of Object.keys(newEndpoints)) {
+    if (!oldEndpoints[key]) {
+      changes.push(nonBreaking(key, 'endpoint added'))
+    }
+  }
+
+  const usages = collectSchemaUsages(newSpec)
+  const oldSchemas = oldSpec.components.schemas
+  const newSchemas = newSpec.components.schemas
+  for (const [name, oldSchema] of Object.entries(oldSchemas)) {
+    const newSchema = newSchemas[name]
+    if (!newSchema) {
+      changes.push(breaking(name, 'schema removed'))
+    } else {
+      // Schemas no operation uses are treated as sent in both directions
+      const usage = usages[name] || { request: true, response: true }
+      diffSchemas(name, oldSchema, newSchema, usage, changes)
+    }
+  }
+  for (const name of Object.keys(newSchemas)) {
+    if (!oldSchemas[name]) {
+      changes.push(nonBreaking(name, 'schema added'))
+    }
+  }
+
+  return [
+    ...changes.filter((change) => change.severity === 'breaking'),
+    ...changes.filter((change) => change.severity === 'non-breaking'),
+  ]
+}
+
+/**
+ * Formats the changes as a report
+ * @param changes The changes found by diffSpecs
+ * @param format Human-readable text or JSON
+ * @returns The report
+ */
+export function formatDiffReport(
+  changes: SpecChange[],
+  format: DiffFormat,
+): string {
+  const breakingChanges = changes.filter(
+    (change) => change.severity === 'breaking',
+  )
+  const nonBreakingChanges = changes.filter(
+    (change) => change.severity === 'non-breaking',
+  )
+
+  if (format === 'json') {
+    return JSON.stringify(
+      { breaking: breakingChanges, nonBreaking: nonBreakingChanges },
+      null,
+      2,
+    )
+  }
+
+  if (changes.length === 0) {
+    return 'No changes found.'
+  }
+
+  const lines: string[] = []
+  if (breakingChanges.length > 0) {
+    lines.push(`Breaking changes (${breakingChanges.length}):`)
+    for (const change of breakingChanges) {
+      lines.push(`  - ${change.location}: ${change.message}`)
+    }
+  }
+  if (nonBreakingChanges.length > 0) {
+    if (lines.length > 0) lines.push('')
+    lines.push(`Non-breaking changes (${nonBreakingChanges.length}):`)
+    for (const change of nonBreakingChanges) {
+      lines.push(`  + ${change.location}: ${change.message}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Compares the parameters, request body and responses of an endpoint
+ * @param location The method and path of the endpoint
+ * @param oldEndpoint The previous version of the endpoint
+ * @param newEndpoint The new version of the endpoint
+ * @param changes The changes to add to
+ */
+function diffEndpoints(
+  location: string,
+  oldEndpoint: ApiEndpoint,
+  newEndpoint: ApiEndpoint,
+  changes: SpecChange[],
+): void {
+  const requestUsage = { request: true, response: false }
+  const responseUsage = { request: false, response: true }
+
+  // Parameters
+  const oldParams = collectParameters(oldEndpoint.parameters)
+  const newParams = collectParameters(newEndpoint.parameters)
+  for (const [key, oldParam] of Object.entries(oldParams)) {
+    const newParam = newParams[key]
+    const paramLocation = `${location} ${key}`
+    if (!newParam) {
+      changes.push(breaking(paramLocation, 'parameter removed'))
+      continue
+    }
+    if (!oldParam.required && newParam.required) {
+      changes.push(breaking(paramLocation, 'parameter became required'))
+    } else if (oldParam.required && !newParam.required) {
+      changes.push(nonBreaking(paramLocation, 'parameter became optional'))
+    }
+    if (oldParam.schema && newParam.schema) {
+      diffSchemas(
+        paramLocation,
+        oldParam.schema,
+        newParam.schema,
+        requestUsage,
+        changes,
+      )
+    }
+  }
+  for (const [key, newParam] of Object.entries(newParams)) {
+    if (!oldParams[key]) {
+      changes.push(
+        newParam.required
+          ? breaking(`${location} ${key}`, 'required parameter added')
+          : nonBreaking(`${location} ${key}`, 'optional parameter added'),
+      )
+    }
+  }
+
+  // Request body
+  const oldBody = oldEndpoint.requestBody
+  const newBody = newEndpoint.requestBody
+  const bodyLocation = `${location} request body`
+  if (oldBody && !newBody) {
+    changes.push(breaking(bodyLocation, 'request body removed'))
+  } else if (!oldBody && newBody) {
+    changes.push(
+      newBody.required
+        ? breaking(bodyLocation, 'required request body added')
+        : nonBreaking(bodyLocation, 'optional request body added'),
+    )
+  } else if (oldBody && newBody) {
+    if (!oldBody.required && newBody.required) {
+      changes.push(breaking(bodyLocation, 'request body became required'))
+    } else if (oldBody.required && !newBody.required) {
+      changes.push(nonBreaking(bodyLocation, 'request body became optional'))
+    }
+    diffMediaTypes(
+      bodyLocation,
+      Object.keys(oldBody.content),
+      Object.keys(newBody.content),
+      changes,
+    )
+    if (oldBody.schema && newBody.schema) {
+      diffSchemas(
+        bodyLocation,
+        oldBody.schema,
+        newBody.schema,
+        requestUsage,
+        changes,
+      )
+    }
+  }
+
+  // Responses
+  for (const [statusCode, oldResponse] of Object.entries(
+    oldEndpoint.responses,
+  )) {
+    const newResponse = newEndpoint.responses[statusCode]
+    const responseLocation = `${location} ${statusCode} response`
+    if (!newResponse) {
+      // Only the removal of a successful response changes the return type
+      changes.push(
+        statusCode.startsWith('2')
+          ? breaking(responseLocation, 'response removed')
+          : nonBreaking(responseLocation, 'response removed'),
+      )
+      continue
+    }
+    diffMediaTypes(
+      responseLocation,
+      Object.keys(oldResponse.content),
+      Object.keys(newResponse.content),
+      changes,
+    )
+    if (oldResponse.schema && newResponse.schema) {
+      diffSchemas(
+        responseLocation,
+        oldResponse.schema,
+        newResponse.schema,
+        responseUsage,
+        changes,
+      )
+    } else if (oldResponse.schema && !newResponse.schema) {
+      changes.push(breaking(responseLocation, 'response body removed'))
+    }
+  }
+  for (const statusCode of Object.keys(newEndpoint.responses)) {
+    if (!oldEndpoint.responses[statusCode]) {
+      changes.push(
+        nonBreaking(`${location} ${statusCode} response`, 'response added'),
+      )
+    }
+  }
+}
+
+/**
+ * Compares the media types of a request or response body
+ * @param location The location of the body
+ * @param oldMediaTypes The previously declared media types
+ * @param newMediaTypes The newly declared media types
+ * @param changes The changes to add to
+ */
+function diffMediaTypes(
+  location: string,
+  oldMediaTypes: string[],
+  newMediaTypes: string[],
+  changes: SpecChange[],
+): void {
+  for (const mediaType of oldMediaTypes) {
+    if (!newMediaTypes.includes(mediaType)) {
+      changes.push(breaking(location, `media type ${mediaType} removed`))
+    }
+  }
+  for (const mediaType of newMediaTypes) {
+    if (!oldMediaTypes.includes(mediaType)) {
+      changes.push(nonBreaking(location, `media type ${mediaType} added`))
+    }
+  }
+}
+
+/**
+ * Compares two versions of a schema. Whether a change breaks the client
+ * depends on the direction the data flows in: a property becoming required
+ * breaks requests, one becoming optional breaks code reading responses
+ * @param location The location of the schema
+ * @param oldSchema The previous version of the schema
+ * @param newSchema The new version of the schema
+ * @param usage Whether the schema is sent, received or both
+ * @param changes The changes to add to
+ */
+function diffSchemas(
+  location: string,
+  oldSchema: ApiSchema,
+  newSchema: ApiSchema,
+  usage: SchemaUsage,
+  changes: SpecChange[],
+): void {
+  const oldType = describeType(oldSchema)
+  const newType = describeType(newSchema)
+  if (oldType !== newType) {
+    changes.push(
+      breaking(location, `type changed from ${oldType} to ${newType}`),
+    )
+    return
+  }
+
+  // Referenced schemas are compared once, under their own name
+  if (oldSchema.reference) {
+    return
+  }
+
+  if (!oldSchema.nullable && newSchema.nullable) {
+    changes.push(classify(usage.response, location, 'became nullable'))
+  } else if (oldSchema.nullable && !newSchema.nullable) {
+    changes.push(classify(usage.request, location, 'is no longer nullable'))
+  }
+
+  // Enum values
+  const oldValues = oldSchema.enum || []
+  const newValues = newSchema.enum || []
+  for (const value of oldValues) {
+    if (!newValues.includes(value)) {
+      changes.push(
+        breaking(location, `enum value ${JSON.stringify(value)} removed`),
+      )
+    }
+  }
+  for (const value of newValues) {
+    if (!oldValues.includes(value)) {
+      changes.push(
+        nonBreaking(location, `enum value ${JSON.stringify(value)} added`),
+      )
+    }
+  }
+
+  // Properties
+  for (const [name, oldProperty] of Object.entries(oldSchema.properties)) {
+    const newProperty = newSchema.properties[name]
+    const propertyLocation = `${location}.${name}`
+    if (!newProperty) {
+      changes.push(breaking(propertyLocation, 'property removed'))
+      continue
+    }
+
+    const wasRequired = oldSchema.required.includes(name)
+    const isRequired = newSchema.required.includes(name)
+    if (!wasRequired && isRequired) {
+      changes.push(classify(usage.request, propertyLocation, 'became required'))
+    } else if (wasRequired && !isRequired) {
+      changes.push(
+        classify(usage.response, propertyLocation, 'became optional'),
+      )
+    }
+
+    diffSchemas(propertyLocation, oldProperty, newProperty, usage, changes)
+  }
+  for (const name of Object.keys(newSchema.properties)) {
+    if (!oldSchema.properties[name]) {
+      const propertyLocation = `${location}.${name}`
+      changes.push(
+        newSchema.required.includes(name)
+          ? classify(usage.request, propertyLocation, 'required property added')
+          : nonBreaking(propertyLocation, 'optional property added'),
+      )
+    }
+  }
+
+  // Properties not declared
+  if (oldSchema.additionalProperties !== false) {
+    if (newSchema.additionalProperties === false) {
+      changes.push(
+        classify(usage.request, location, 'no longer allows other properties'),
+      )
+    }
+  } else if (newSchema.additionalProperties !== false) {
+    changes.push(nonBreaking(location, 'allows other properties'))
+  }
+  if (
+    typeof oldSchema.additionalProperties === 'object' &&
+    oldSchema.additionalProperties &&
+    typeof newSchema.additionalProperties === 'object' &&
+    newSchema.additionalProperties
+  ) {
+    diffSchemas(
+      `${location}[*]`,
+      oldSchema.additionalProperties,
+      newSchema.additionalProperties,
+      usage,
+      changes,
+    )
+  }
+  for (const [pattern, oldProperty] of Object.entries(
+    oldSchema.patternProperties,
+  )) {
+    const newProperty = newSchema.patternProperties[pattern]
+    const patternLocation = `${location}[/${pattern}/]`
+    if (newProperty) {
+      diffSchemas(patternLocation, oldProperty, newProperty, usage, changes)
+    } else {
+      changes.push(breaking(patternLocation, 'property pattern removed'))
+    }
+  }
+  for (const pattern of Object.keys(newSchema.patternProperties)) {
+    if (!oldSchema.patternProperties[pattern]) {
+      changes.push(
+        nonBreaking(`${location}[/${pattern}/]`, 'property pattern added'),
+      )
+    }
+  }
+
+  // Array items and inline composition members
+  if (oldSchema.items && newSchema.items) {
+    diffSchemas(
+      `${location}[]`,
+      oldSchema.items,
+      newSchema.items,
+      usage,
+      changes,
+    )
+  }
+  for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+    const oldMembers = oldSchema[keyword] || []
+    const newMembers = newSchema[keyword] || []
+    oldMembers.forEach((member, index) => {
+      if (newMembers[index]) {
+        diffSchemas(
+          `${location}.${keyword}[${index}]`,
+          member,
+          newMembers[index],
+          usage,
+          changes,
+        )
+      }
+    })
+  }
+}
+
+/**
+ * Describes the type of a schema for comparison: its reference, its
+ * composition members, or its type and format
+ * @param schema The schema to describe
+ * @returns The type description
+ */
+function describeType(schema: ApiSchema): string {
+  if (schema.reference) {
+    return schema.reference
+  }
+
+  for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+    const members = schema[keyword]
+    if (members && members.length > 0) {
+      return `${keyword}(${members.map(describeType).join(', ')})`
+    }
+  }
+
+  if (schema.type === 'array') {
+    return `${schema.items ? describeType(schema.items) : 'any'}[]`
+  }
+
+  const type =
+    schema.type === 'enum' || !schema.type
+      ? Object.keys(schema.properties).length > 0
+        ? 'object'
+        : schema.enum
+          ? typeof schema.enum[0]
+          : 'any'
+      : schema.type
+  return schema.format ? `${type} (${schema.format})` : type
+}
+
+/**
+ * Finds the component schemas sent in requests and received in responses,
+ * directly or through other schemas
+ * @param spec The parsed specification
+ * @returns The usage of every schema used by an operation
+ */
+function collectSchemaUsages(spec: ParsedSpec): Record<string, SchemaUsage> {
+  const usages: Record<string, SchemaUsage> = {}
+  const schemas = spec.components.schemas
+
+  const visit = (
+    schema: ApiSchema | null,
+    direction: keyof SchemaUsage,
+  ): void => {
+    if (!schema) return
+
+    if (schema.reference) {
+      const usage = (usages[schema.reference] = usages[schema.reference] || {
+        request: false,
+        response: false,
+      })
+      if (usage[direction]) return
+      usage[direction] = true
+      visit(schemas[schema.reference] || null, direction)
+      return
+    }
+
+    for (const child of [
+      ...Object.values(schema.properties),
+      ...(schema.items ? [schema.items] : []),
+      ...(schema.allOf || []),
+      ...(schema.oneOf || []),
+      ...(schema.anyOf || []),
+      ...getMapValueSchemas(schema),
+    ]) {
+      visit(child, direction)
+    }
+  }
+
+  for (const endpoint of Object.values(collectEndpoints(spec))) {
+    for (const param of endpoint.parameters) {
+      visit(param.schema, 'request')
+    }
+    for (const media of Object.values(endpoint.requestBody?.content || {})) {
+      visit(media.schema, 'request')
+    }
+    for (const response of Object.values(endpoint.responses)) {
+      for (const media of Object.values(response.content)) {
+        visit(media.schema, 'response')
+      }
+    }
+  }
+
+  return usages
+}
+
+/**
+ * Indexes the endpoints of a specification by method and path
+ * @param spec The parsed specification
+ * @returns The endpoints, keyed like `GET /pets/{id}`
+ */
+function collectEndpoints(spec: ParsedSpec): Record<string, ApiEndpoint> {
+  const endpoints: Record<string, ApiEndpoint> = {}
+  for (const [path, apiPath] of Object.entries(spec.paths)) {
+    for (const endpoint of apiPath.endpoints) {
+      endpoints[`${endpoint.method.toUpperCase()} ${path}`] = endpoint
+    }
+  }
+  return endpoints
+}
+
+/**
+ * Indexes the parameters of an endpoint by location and name
+ * @param parameters The parameters
+ * @returns The parameters, keyed like `query parameter "limit"`
+ */
+function collectParameters(
+  parameters: ApiParameter[],
+): Record<string, ApiParameter> {
+  const params: Record<string, ApiParameter> = {}
+  for (const param of parameters) {
+    params[`${param.in} parameter "${param.name}"`] = param
+  }
+  return params
+}
+
+/**
+ * Creates a change that is breaking if a condition holds
+ * @param isBreaking Whether the change breaks the client
+ * @param location Where the change happened
+ * @param message What changed
+ * @returns The change
+ */
+function classify(
+  isBreaking: boolean,
+  location: string,
+  message: string,
+): SpecChange {
+  return isBreaking
+    ? breaking(location, message)
+    : nonBreaking(location, message)
+}
+
+/**
+ * Creates a breaking change
+ * @param location Where the change happened
+ * @param message What changed
+ * @returns The change
+ */
+function breaking(location: string, message: string): SpecChange {
+  return { severity: 'breaking', location, message }
+}
+
+/**
+ * Creates a non-breaking change
+ * @param location Where the change happened
+ * @param message What changed
+ * @returns The change
+ */
+function nonBreaking(location: string, message: string): SpecChange {
+  return { severity: 'non-breaking', location, message }
+}
@@ -0,0 +1,272 @@
+import { ApiEndpoint, ApiSchema } from './types'
+import { getMediaKind, selectMediaType } from './media-types'
+import { getMapValueSchemas, isMapSchema, toKeyType } from './map-types'
+
+/**
+ * Example values of string formats; other strings are `"string"`
+ */
+const FORMAT_EXAMPLES: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00.000Z',
+  date: '2024-01-01',
+  time: '12:00:00',
+  email: 'user@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '192.0.2.1',
+  ipv6: '2001:db8::1',
+  byte: 'ZXhhbXBsZQ==',
+  password: 'password',
+}
+
+/**
+ * The response a mock returns for an operation
+ */
+export interface ExampleResponse {
+  status: number
+  /** The media type of the body, empty when there is none */
+  contentType: string
+  /** The body, undefined when the response has none */
+  body: unknown
+}
+
+/**
+ * Selects the response a mock returns for an operation: the first
+ * successful one, in the preferred media type
+ * @param endpoint The API endpoint
+ * @param schemas The component schemas of the specification
+ * @returns The status, media type and example body
+ */
+export function buildExampleResponse(
+  endpoint: ApiEndpoint,
+  schemas: Record<string, ApiSchema>,
+): ExampleResponse {
+  const statusCodes = Object.keys(endpoint.responses)
+  const statusCode =
+    statusCodes.filter((code) => /^2\d\d$/.test(code)).sort()[0] ||
+    statusCodes.find((code) => /^2XX$/i.test(code) || code === 'default')
+  if (!statusCode) {
+    return { status: 200, contentType: '', body: undefined }
+  }
+
+  const status = /^\d+$/.test(statusCode) ? Number(statusCode) : 200
+  const content = endpoint.responses[statusCode].content
+  const contentType = selectMediaType(Object.keys(content))
+  if (!contentType) {
+    return { status, contentType: '', body: undefined }
+  }
+
+  const media = content[contentType]
+  const body =
+    media.example !== undefined
+      ? media.example
+      : media.schema
+        ? buildExample(media.schema, schemas)
+        : undefined
+  return { status, contentType, body }
+}
+
+/**
+ * Checks whether an example response is sent as JSON, which includes
+ * wildcard media types
+ * @param response The example response
+ * @returns True for JSON responses
+ */
+export function isJsonResponse(response: ExampleResponse): boolean {
+  const kind = getMediaKind(response.contentType)
+  return kind === 'json' || kind === 'auto'
+}
+
+/**
+ * Converts the example of a text or binary response to its body text
+ * @param body The example
+ * @returns The body text
+ */
+export function toTextBody(body: unknown): string {
+  return typeof body === 'string' ? body : JSON.stringify(body)
+}
+
+/**
+ * Builds an example value that is valid against a schema, preferring the
+ * `example` and `default` values of the specification over synthesized ones
+ * @param schema The schema to build a value for
+ * @param schemas The component schemas, to resolve references
+ * @param visiting The component schemas being built, to stop at cycles
+ * @returns The example, or undefined where a cycle cuts it off
+ */
+export function buildExample(
+  schema: ApiSchema,
+  schemas: Record<string, ApiSchema>,
+  visiting: string[] = [],
+): unknown {
+  if (schema.example !== undefined) {
+    return schema.example
+  }
+  if (schema.default !== undefined) {
+    return schema.default
+  }
+
+  if (schema.reference) {
+    if (visiting.includes(schema.reference)) {
+      return undefined
+    }
+    const target = schemas[schema.reference]
+    return target
+      ? buildExample(target, schemas, [...visiting, schema.reference])
+      : null
+  }
+
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0]
+  }
+
+  if (schema.allOf) {
+    return buildAllOfExample(schema, schemas, visiting)
+  }
+
+  const members = schema.oneOf || schema.anyOf
+  if (members && members.length > 0) {
+    return buildUnionExample(schema, members, schemas, visiting)
+  }
+
+  if (isMapSchema(schema)) {
+    return buildMapExample(schema, schemas, visiting)
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return (schema.format && FORMAT_EXAMPLES[schema.format]) || 'string'
+    case 'integer':
+    case 'number':
+      return 0
+    case 'boolean':
+      return true
+    case 'array': {
+      const item = schema.items
+        ? buildExample(schema.items, schemas, visiting)
+        : undefined
+      return item === undefined ? [] : [item]
+    }
+    case 'object':
+      return buildObjectExample(schema, schemas, visiting)
+    default:
+      return null
+  }
+}
+
+/**
+ * Builds an example object with every declared property
+ * @param schema The object schema
+ * @param schemas The component schemas
+ * @param visiting The component schemas being built
+ * @returns The example object
+ */
+function buildObjectExample(
+  schema: ApiSchema,
+  schemas: Record<string, ApiSchema>,
+  visiting: string[],
+): Record<string, unknown> {
+  const example: Record<string, unknown> = {}
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const value = buildExample(property, schemas, visiting)
+    if (value !== undefined) {
+      example[name] = value
+    } else if (property.nullable || schema.required.includes(name)) {
+      // A cycle through a required property can only be closed with null
+      example[name] = null
+    }
+  }
+  return example
+}
+
+/**
+ * Builds an example map with one entry, named to match the first pattern
+ * that has a template literal key type
+ * @param schema The map schema
+ * @param schemas The component schemas
+ * @param visiting The component schemas being built
+ * @returns The example map
+ */
+function buildMapExample(
+  schema: ApiSchema,
+  schemas: Record<string, ApiSchema>,
+  visiting: string[],
+): Record<string, unknown> {
+  const valueSchema = getMapValueSchemas(schema)[0]
+  const value = valueSchema
+    ? buildExample(valueSchema, schemas, visiting)
+    : undefined
+  if (value === undefined) {
+    return {}
+  }
+
+  const keyType =
+    valueSchema === schema.additionalProperties
+      ? 'string'
+      : toKeyType(Object.keys(schema.patternProperties)[0])
+  if (!keyType) {
+    return {}
+  }
+  const key =
+    keyType === 'string'
+      ? 'key'
+      : keyType.slice(1, -1).replace(/\$\{string\}/g, 'key')
+  return { [key]: value }
+}
+
+/**
+ * Builds an example of an allOf schema by merging the examples of its
+ * members and its own properties
+ * @param schema The allOf schema
+ * @param schemas The component schemas
+ * @param visiting The component schemas being built
+ * @returns The merged example
+ */
+function buildAllOfExample(
+  schema: ApiSchema,
+  schemas: Record<string, ApiSchema>,
+  visiting: string[],
+): unknown {
+  let example: Record<string, unknown> = {}
+  for (const member of schema.allOf || []) {
+    const value = buildExample(member, schemas, visiting)
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      example = { ...example, ...value }
+    } else if (value !== undefined && Object.keys(example).length === 0) {
+      // A primitive allOf, e.g. a string with a shared format
+      return value
+    }
+  }
+  return { ...example, ...buildObjectExample(schema, schemas, visiting) }
+}
+
+/**
+ * Builds an example of a oneOf/anyOf schema from its first member, with
+ * the discriminator property set to the value that selects that member
+ * @param schema The polymorphic schema
+ * @param members The oneOf/anyOf members
+ * @param schemas The component schemas
+ * @param visiting The component schemas being built
+ * @returns The example of the first member
+ */
+function buildUnionExample(
+  schema: ApiSchema,
+  members: ApiSchema[],
+  schemas: Record<string, ApiSchema>,
+  visiting: string[],
+): unknown {
+  const member = members[0]
+  const value = buildExample(member, schemas, visiting)
+  if (!schema.discriminator || !value || typeof value !== 'object') {
+    return value
+  }
+
+  const { propertyName, mapping } = schema.discriminator
+  const discriminatorValue = Object.keys(mapping).find(
+    (key) => mapping[key] === member.reference,
+  )
+  return discriminatorValue === undefined
+    ? value
+    : { ...value, [propertyName]: discriminatorValue }
+}
@@ -0,0 +1,542 @@
+import {
+  ApiSchema,
+  GenerationOptions,
+  TypeDefinition,
+  TypeDefinitions,
+} from './types'
+import { isMapSchema } from './map-types'
+import { toPropertyName } from './naming'
+
+/**
+ * State shared while generating the factory of one model
+ */
+interface FactoryContext {
+  schemas: Record<string, ApiSchema>
+  options: GenerationOptions
+  /** The component schemas that get a factory */
+  models: Set<string>
+  /** References between models that are left out to break cycles */
+  cutEdges: Set<string>
+  /** The component schema whose factory is generated */
+  owner: string
+  dependencies: string[]
+}
+
+/**
+ * Generates a `build<Model>()` factory for every object component schema,
+ * building schema-valid instances from a seedable random value source.
+ * References to other models call their factories; references that would
+ * recurse forever are left out
+ * @param schemas The component schemas of the specification
+ * @param typeDefinitions The collection of TypeScript definitions, to which
+ * the factories are added
+ * @param options The generation options
+ */
+export function generateFactories(
+  schemas: Record<string, ApiSchema>,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): void {
+  const models = new Set(
+    Object.keys(schemas).filter((name) => isModelSchema(schemas[name])),
+  )
+  if (models.size === 0) {
+    return
+  }
+
+  const context: FactoryContext = {
+    schemas,
+    options,
+    models,
+    cutEdges: new Set(),
+    owner: '',
+    dependencies: [],
+  }
+
+  // Collect the factories each factory calls, then break the cycles
+  const calls = new Map<string, string[]>()
+  for (const name of models) {
+    context.owner = name
+    context.dependencies = []
+    toObjectEntries(schemas[name], context, [name])
+    calls.set(
+      name,
+      [...models].filter((model) =>
+        context.dependencies.includes(toFactoryName(model)),
+      ),
+    )
+  }
+  context.cutEdges = findBackEdges(calls)
+
+  typeDefinitions.factories.push({
+    name: 'fake',
+    content: generateFakeRuntime(),
+    dependencies: [],
+  })
+
+  for (const name of models) {
+    context.owner = name
+    context.dependencies = ['fake']
+    typeDefinitions.factories.push(generateFactory(name, context))
+  }
+}
+
+/**
+ * Names the factory of a model
+ * @param name The component schema name
+ * @returns The factory name, e.g. buildPet
+ */
+export function toFactoryName(name: string): string {
+  return `build${name}`
+}
+
+/**
+ * Checks whether a component schema is an object model that gets a factory
+ * @param schema The component schema
+ * @returns True for object and allOf schemas; maps are built empty instead
+ */
+function isModelSchema(schema: ApiSchema): boolean {
+  if (
+    schema.reference ||
+    (schema.enum && schema.enum.length > 0) ||
+    isMapSchema(schema)
+  ) {
+    return false
+  }
+  return isObjectSchema(schema)
+}
+
+/**
+ * Checks whether a schema is built as an object literal
+ * @param schema The schema, not a reference or enum
+ * @returns True for object and allOf schemas
+ */
+function isObjectSchema(schema: ApiSchema): boolean {
+  return (
+    schema.type === 'object' ||
+    Object.keys(schema.properties).length > 0 ||
+    (schema.allOf !== null && schema.allOf.length > 0)
+  )
+}
+
+/**
+ * Generates the factory of a model
+ * @param name The component schema name
+ * @param context The factory context
+ * @returns The factory definition
+ */
+function generateFactory(
+  name: string,
+  context: FactoryContext,
+): TypeDefinition {
+  const factoryName = toFactoryName(name)
+  const entries = toObjectEntries(context.schemas[name], context, [name])
+  context.dependencies.push(name)
+
+  let content = `/**\n`
+  content += ` * Builds an instance of ${name} with fake values; overrides replace single properties\n`
+  content += ` * @param overrides Properties to set instead of fake values\n`
+  content += ` * @returns The instance\n`
+  content += ` */\n`
+  content += `export function ${factoryName}(overrides: Partial<${name}> = {}): ${name} {\n`
+  content += `  return {\n`
+  for (const entry of [...entries, '...overrides']) {
+    content += `    ${entry},\n`
+  }
+  content += `  };\n`
+  content += `}`
+
+  return {
+    name: factoryName,
+    content,
+    dependencies: context.dependencies,
+  }
+}
+
+/**
+ * Generates the entries of an object literal building an object or allOf
+ * schema. Optional properties are present on about every other instance
+ * @param schema The object or allOf schema
+ * @param context The factory context
+ * @param visiting The component schemas being expanded, to stop at cycles
+ * @returns The object literal entries
+ */
+function toObjectEntries(
+  schema: ApiSchema,
+  context: FactoryContext,
+  visiting: string[],
+): string[] {
+  const entries: string[] = []
+
+  for (const member of schema.allOf || []) {
+    if (!member.reference && isObjectSchema(member)) {
+      entries.push(...toObjectEntries(member, context, visiting))
+      continue
+    }
+    const expression = toFakeExpression(member, context, visiting)
+    if (expression !== null) {
+      entries.push(`...${expression}`)
+    }
+  }
+
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const key = toPropertyKey(toPropertyName(schema, name))
+    const isRequired = schema.required.includes(name)
+    const expression = toFakeExpression(property, context, visiting)
+
+    if (expression === null) {
+      // Cut references can only be closed with null; a required,
+      // non-nullable one has no finite instance at all
+      if (property.nullable) {
+        entries.push(`${key}: null`)
+      } else if (isRequired) {
+        entries.push(`${key}: null as never`)
+      }
+    } else if (isRequired) {
+      entries.push(`${key}: ${expression}`)
+    } else {
+      entries.push(`...(fake.boolean() ? { ${key}: ${expression} } : {})`)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Generates the expression building a fake value of a schema
+ * @param schema The schema
+ * @param context The factory context
+ * @param visiting The component schemas being expanded, to stop at cycles
+ * @returns The expression, or null where a reference is cut
+ */
+function toFakeExpression(
+  schema: ApiSchema,
+  context: FactoryContext,
+  visiting: string[],
+): string | null {
+  if (schema.reference) {
+    return toReferenceExpression(schema.reference, context, visiting)
+  }
+
+  if (schema.enum && schema.enum.length > 0) {
+    // Every enum is generated with a list of its values
+    const valuesName = `${schema.name}Values`
+    context.dependencies.push(valuesName)
+    return `fake.pick(${valuesName})`
+  }
+
+  if (isObjectSchema(schema)) {
+    const entries = toObjectEntries(schema, context, visiting)
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}'
+  }
+
+  const members = schema.oneOf || schema.anyOf
+  if (members && members.length > 0) {
+    return toUnionExpression(schema, members, context, visiting)
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return toStringExpression(schema, context.options)
+    case 'integer':
+    case 'number': {
+      const isInteger = schema.type === 'integer' || schema.format === 'int64'
+      const [min, max] = toNumberRange(schema, isInteger)
+      if (!isInteger) {
+        return `fake.number(${min}, ${max})`
+      }
+      const expression = `fake.integer(${min}, ${max})`
+      return schema.format === 'int64' && !context.options.wireTypes
+        ? `BigInt(${expression})`
+        : expression
+    }
+    case 'boolean':
+      return `fake.boolean()`
+    case 'array': {
+      const minItems = schema.minItems ?? Math.min(1, schema.maxItems ?? 1)
+      const maxItems = schema.maxItems ?? Math.max(minItems, 3)
+      const item = schema.items
+        ? toFakeExpression(schema.items, context, visiting)
+        : '{}'
+      return item === null
+        ? '[]'
+        : `fake.array(() => ${toArrowBody(item)}, ${minItems}, ${maxItems})`
+    }
+    default:
+      return '{}'
+  }
+}
+
+/**
+ * Generates the expression building a referenced schema: a call of its
+ * factory for models, its expanded expression otherwise
+ * @param reference The referenced component schema name
+ * @param context The factory context
+ * @param visiting The component schemas being expanded
+ * @returns The expression, or null where the reference is cut
+ */
+function toReferenceExpression(
+  reference: string,
+  context: FactoryContext,
+  visiting: string[],
+): string | null {
+  if (context.models.has(reference)) {
+    if (context.cutEdges.has(`${context.owner}>${reference}`)) {
+      return null
+    }
+    const factoryName = toFactoryName(reference)
+    context.dependencies.push(factoryName)
+    return `${factoryName}()`
+  }
+
+  const target = context.schemas[reference]
+  if (!target || visiting.includes(reference)) {
+    return null
+  }
+  return toFakeExpression(target, context, [...visiting, reference])
+}
+
+/**
+ * Generates the expression building one of the members of a oneOf/anyOf
+ * schema, with the discriminator property set to the member's value
+ * @param schema The polymorphic schema
+ * @param members The oneOf/anyOf members
+ * @param context The factory context
+ * @param visiting The component schemas being expanded
+ * @returns The expression, or null if every member is cut
+ */
+function toUnionExpression(
+  schema: ApiSchema,
+  members: ApiSchema[],
+  context: FactoryContext,
+  visiting: string[],
+): string | null {
+  const builders: string[] = []
+  for (const member of members) {
+    const expression = toFakeExpression(member, context, visiting)
+    if (expression === null) {
+      continue
+    }
+
+    const mapping = schema.discriminator?.mapping || {}
+    const value = Object.keys(mapping).find(
+      (key) => member.reference && mapping[key] === member.reference,
+    )
+    builders.push(
+      value === undefined
+        ? `() => ${toArrowBody(expression)}`
+        : `() => ({ ...${expression}, ${toPropertyKey(toPropertyName(schema, schema.discriminator!.propertyName))}: ${JSON.stringify(value)} as const })`,
+    )
+  }
+
+  if (builders.length === 0) {
+    return null
+  }
+  return builders.length === 1
+    ? `(${builders[0]})()`
+    : `fake.pick([${builders.join(', ')}])()`
+}
+
+/**
+ * Generates the expression building a fake string, honoring its format
+ * and length bounds
+ * @param schema The string schema
+ * @param options The generation options
+ * @returns The expression
+ */
+function toStringExpression(
+  schema: ApiSchema,
+  options: GenerationOptions,
+): string {
+  switch (schema.format) {
+    case 'date-time':
+      return options.wireTypes
+        ? `fake.dateTime().toISOString()`
+        : `fake.dateTime()`
+    case 'date':
+      return options.wireTypes
+        ? `fake.date().toISOString().slice(0, 10)`
+        : `fake.date()`
+    case 'uuid':
+      return `fake.uuid()`
+    case 'email':
+      return `fake.email()`
+    case 'uri':
+    case 'url':
+      return `fake.url()`
+    case 'binary':
+      return `new Blob([fake.string(5, 12)])`
+  }
+
+  const minLength = schema.minLength ?? Math.min(5, schema.maxLength ?? 5)
+  const maxLength = schema.maxLength ?? Math.max(minLength, 12)
+  return `fake.string(${minLength}, ${maxLength})`
+}
+
+/**
+ * Determines the range fake numbers are drawn from, within the bounds of
+ * the schema
+ * @param schema The number or integer schema
+ * @param isInteger Whether the values are integers
+ * @returns The smallest and largest value
+ */
+function toNumberRange(schema: ApiSchema, isInteger: boolean): number[] {
+  let min = schema.minimum
+  let max = schema.maximum
+  if (isInteger) {
+    if (min !== undefined) {
+      min = schema.exclusiveMinimum ? Math.floor(min) + 1 : Math.ceil(min)
+    }
+    if (max !== undefined) {
+      max = schema.exclusiveMaximum ? Math.ceil(max) - 1 : Math.floor(max)
+    }
+  }
+
+  if (min === undefined && max === undefined) {
+    return [0, 1000]
+  }
+  if (min === undefined) {
+    return [max! >= 0 ? 0 : max! - 1000, max!]
+  }
+  if (max === undefined) {
+    return [min, min + 1000]
+  }
+  return [min, max]
+}
+
+/**
+ * Finds the references to leave out so that no factory calls itself,
+ * directly or through other factories: the back edges of a depth-first
+ * search in declaration order
+ * @param calls The factories each factory calls, by model name
+ * @returns The cut references as `owner>reference`
+ */
+function findBackEdges(calls: Map<string, string[]>): Set<string> {
+  const cutEdges = new Set<string>()
+  const visited = new Set<string>()
+  const active = new Set<string>()
+
+  const visit = (name: string) => {
+    visited.add(name)
+    active.add(name)
+    for (const callee of calls.get(name) || []) {
+      if (active.has(callee)) {
+        cutEdges.add(`${name}>${callee}`)
+      } else if (!visited.has(callee)) {
+        visit(callee)
+      }
+    }
+    active.delete(name)
+  }
+
+  for (const name of calls.keys()) {
+    if (!visited.has(name)) {
+      visit(name)
+    }
+  }
+
+  return cutEdges
+}
+
+/**
+ * Wraps an object literal returned by an arrow function in parentheses
+ * @param expression The returned expression
+ * @returns The arrow function body
+ */
+function toArrowBody(expression: string): string {
+  return expression.startsWith('{') ? `(${expression})` : expression
+}
+
+/**
+ * Quotes a property name if it is not a valid identifier
+ * @param name The property name
+ * @returns The property key to use in generated code
+ */
+function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+/**
+ * Generates the seedable random value source of the factories: a
+ * mulberry32 generator, so the same seed always builds the same instances
+ * @returns The source code
+ */
+function generateFakeRuntime(): string {
+  return `/**
+ * Source of the values the model factories build. Call fake.seed() before
+ * each test to build the same instances on every run
+ */
+export const fake = {
+  state: 1,
+
+  /** Restarts the sequence of values */
+  seed(seed: number): void {
+    fake.state = seed >>> 0
+  },
+
+  /** Returns a number in [0, 1) */
+  next(): number {
+    let t = (fake.state = (fake.state + 0x6d2b79f5) >>> 0)
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  },
+
+  /** Returns an integer in [min, max] */
+  integer(min: number, max: number): number {
+    return min + Math.floor(fake.next() * (max - min + 1))
+  },
+
+  /** Returns a number in [min, max) */
+  number(min: number, max: number): number {
+    return min + fake.next() * (max - min)
+  },
+
+  boolean(): boolean {
+    return fake.next() < 0.5
+  },
+
+  pick<T>(values: readonly T[]): T {
+    return values[Math.floor(fake.next() * values.length)]
+  },
+
+  /** Returns lowercase letters and digits */
+  string(minLength: number, maxLength: number): string {
+    const chars = 'abcdefghijklmnopqrstuvwxyz0123456789'
+    let value = ''
+    for (let i = fake.integer(minLength, maxLength); i > 0; i--) {
+      value += chars[fake.integer(0, chars.length - 1)]
+    }
+    return value
+  },
+
+  /** Returns a version 4 UUID */
+  uuid(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) =>
+      (char === 'x' ? fake.integer(0, 15) : fake.integer(8, 11)).toString(16),
+    )
+  },
+
+  email(): string {
+    return fake.string(5, 10) + '@example.com'
+  },
+
+  url(): string {
+    return 'https://example.com/' + fake.string(5, 10)
+  },
+
+  /** Returns a day between 2020 and 2030, at midnight UTC */
+  date(): Date {
+    return new Date(Date.UTC(2020, 0, 1) + fake.integer(0, 3652) * 86400000)
+  },
+
+  /** Returns a time between 2020 and 2030, in whole seconds */
+  dateTime(): Date {
+    return new Date(Date.UTC(2020, 0, 1) + fake.integer(0, 3652 * 86400) * 1000)
+  },
+
+  array<T>(build: () => T, minItems: number, maxItems: number): T[] {
+    return Array.from({ length: fake.integer(minItems, maxItems) }, build)
+  },
+}`
+}
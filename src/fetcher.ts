@@ -3,6 +3,7 @@ import * as http from 'http'
 import * as fs from 'fs'
 import * as path from 'path'
 import { URL } from 'url'
+import { parse as parseYaml, YAMLParseError } from 'yaml'
 
 /**
  * Fetches the Swagger/OpenAPI specification from a URL or local file
@@ -42,7 +43,11 @@ async function fetchFromUrl(url: string): Promise<any> {
 
       res.on('end', () => {
         try {
-          const parsed = JSON.parse(data)
+          const parsed = parseSpecContent(
+            data,
+            url,
+            res.headers['content-type'],
+          )
           resolve(parsed)
         } catch (error: unknown) {
           const errorMessage =
@@ -76,7 +81,7 @@ async function fetchFromFile(filePath: string): Promise<any> {
       }
 
       try {
-        const parsed = JSON.parse(data)
+        const parsed = parseSpecContent(data, filePath)
         resolve(parsed)
       } catch (error: unknown) {
         const errorMessage =
@@ -86,3 +91,90 @@ async function fetchFromFile(filePath: string): Promise<any> {
     })
   })
 }
+
+/**
+ * Parses the raw specification content as JSON or YAML
+ * @param data The raw specification content
+ * @param source The URL or file path the content was loaded from
+ * @param contentType The Content-Type header of the response, if any
+ * @returns The parsed Swagger specification as a JavaScript object
+ */
+function parseSpecContent(
+  data: string,
+  source: string,
+  contentType?: string,
+): any {
+  if (isYamlContent(data, source, contentType)) {
+    try {
+      return parseYaml(data)
+    } catch (error: unknown) {
+      if (error instanceof YAMLParseError && error.linePos) {
+        const [{ line, col }] = error.linePos
+        // The library appends its own position and a code excerpt
+        const reason = error.message.split(' at line ')[0]
+        throw new Error(`${reason} (YAML, line ${line}, column ${col})`)
+      }
+      throw error
+    }
+  }
+
+  try {
+    return JSON.parse(data)
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    const position = errorMessage.match(/at position (\d+)/)
+    if (!position) {
+      throw error
+    }
+
+    const { line, column } = getLineAndColumn(data, Number(position[1]))
+    throw new Error(`${errorMessage} (JSON, line ${line}, column ${column})`)
+  }
+}
+
+/**
+ * Detects whether the specification content is YAML, looking at the
+ * Content-Type header, then the file extension, then the content itself
+ * @param data The raw specification content
+ * @param source The URL or file path the content was loaded from
+ * @param contentType The Content-Type header of the response, if any
+ * @returns True if the content should be parsed as YAML
+ */
+function isYamlContent(
+  data: string,
+  source: string,
+  contentType?: string,
+): boolean {
+  if (contentType) {
+    if (/yaml/i.test(contentType)) return true
+    if (/json/i.test(contentType)) return false
+  }
+
+  const pathname = /^https?:\/\//.test(source)
+    ? new URL(source).pathname
+    : source
+  const extension = path.extname(pathname).toLowerCase()
+  if (extension === '.yaml' || extension === '.yml') return true
+  if (extension === '.json') return false
+
+  // JSON documents always start with an object or array
+  const firstChar = data.trimStart().charAt(0)
+  return firstChar !== '{' && firstChar !== '['
+}
+
+/**
+ * Converts a character offset into a 1-based line and column
+ * @param data The text the offset points into
+ * @param offset The character offset
+ * @returns The line and column of the offset
+ */
+function getLineAndColumn(
+  data: string,
+  offset: number,
+): { line: number; column: number } {
+  const lines = data.slice(0, offset).split('\n')
+  return {
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+  }
+}
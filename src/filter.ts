@@ -0,0 +1,219 @@
+import {
+  ApiEndpoint,
+  ApiPath,
+  ApiSchema,
+  OperationFilter,
+  ParsedSpec,
+} from './types'
+import { getMapValueSchemas } from './map-types'
+
+/**
+ * Keeps the operations that match every criterion of the include filter and
+ * no criterion of the exclude filter, and the component schemas they still
+ * reference directly or through other schemas
+ * @param spec The parsed specification
+ * @param include The criteria an operation must match to be kept
+ * @param exclude The criteria of which none may match
+ * @returns The filtered specification
+ */
+export function filterSpec(
+  spec: ParsedSpec,
+  include: OperationFilter = {},
+  exclude: OperationFilter = {},
+): ParsedSpec {
+  const paths: Record<string, ApiPath> = {}
+  for (const [path, apiPath] of Object.entries(spec.paths)) {
+    const endpoints = apiPath.endpoints
+      .filter(
+        (endpoint) =>
+          matchesAll(endpoint, include) && !matchesAny(endpoint, exclude),
+      )
+      .map((endpoint) => narrowTags(endpoint, include))
+    if (endpoints.length > 0) {
+      paths[path] = { ...apiPath, endpoints }
+    }
+  }
+
+  const reachable = collectReachableSchemas(
+    Object.values(paths).flatMap((apiPath) => apiPath.endpoints),
+    spec.components.schemas,
+  )
+  const schemas: Record<string, ApiSchema> = {}
+  for (const [name, schema] of Object.entries(spec.components.schemas)) {
+    if (reachable.has(name)) {
+      schemas[name] = schema
+    }
+  }
+
+  return { ...spec, paths, components: { ...spec.components, schemas } }
+}
+
+/**
+ * Drops the tags an include filter does not list, so an operation kept for
+ * one of its tags is not emitted under the others
+ * @param endpoint The API endpoint
+ * @param include The criteria an operation must match to be kept
+ * @returns The endpoint, with only the included tags if the filter sets tags
+ */
+function narrowTags(
+  endpoint: ApiEndpoint,
+  include: OperationFilter,
+): ApiEndpoint {
+  if (!include.tags) {
+    return endpoint
+  }
+  const tags = endpoint.tags.filter((tag) => include.tags!.includes(tag))
+  return tags.length === endpoint.tags.length ? endpoint : { ...endpoint, tags }
+}
+
+/**
+ * Counts the operations of a specification
+ * @param spec The parsed specification
+ * @returns The number of operations
+ */
+export function countOperations(spec: ParsedSpec): number {
+  return Object.values(spec.paths).reduce(
+    (count, apiPath) => count + apiPath.endpoints.length,
+    0,
+  )
+}
+
+/**
+ * Checks whether an endpoint matches every criterion of a filter; an empty
+ * filter matches every endpoint
+ * @param endpoint The API endpoint
+ * @param filter The criteria
+ * @returns True if no criterion fails
+ */
+function matchesAll(endpoint: ApiEndpoint, filter: OperationFilter): boolean {
+  return toCriteria(endpoint, filter).every((matches) => matches)
+}
+
+/**
+ * Checks whether an endpoint matches any criterion of a filter; an empty
+ * filter matches no endpoint
+ * @param endpoint The API endpoint
+ * @param filter The criteria
+ * @returns True if a criterion matches
+ */
+function matchesAny(endpoint: ApiEndpoint, filter: OperationFilter): boolean {
+  return toCriteria(endpoint, filter).some((matches) => matches)
+}
+
+/**
+ * Evaluates the criteria a filter sets against an endpoint
+ * @param endpoint The API endpoint
+ * @param filter The criteria
+ * @returns Whether the endpoint matches, per given criterion
+ */
+function toCriteria(endpoint: ApiEndpoint, filter: OperationFilter): boolean[] {
+  const criteria: boolean[] = []
+  if (filter.tags) {
+    criteria.push(endpoint.tags.some((tag) => filter.tags!.includes(tag)))
+  }
+  if (filter.paths) {
+    criteria.push(
+      filter.paths.some((glob) => toGlobRegExp(glob).test(endpoint.path)),
+    )
+  }
+  if (filter.operationIds) {
+    criteria.push(
+      filter.operationIds.some((glob) =>
+        toGlobRegExp(glob).test(endpoint.operationId),
+      ),
+    )
+  }
+  if (filter.methods) {
+    criteria.push(
+      filter.methods.some(
+        (method) => method.toLowerCase() === endpoint.method.toLowerCase(),
+      ),
+    )
+  }
+  if (filter.deprecated !== undefined) {
+    criteria.push(endpoint.deprecated === filter.deprecated)
+  }
+  return criteria
+}
+
+/**
+ * Compiles a glob to a regular expression: `**` matches anything, `*` and
+ * `?` anything but a slash. A trailing `/**` also matches the path it is
+ * appended to, so `/pets/**` covers `/pets` too
+ * @param glob The glob, e.g. `/pets/**`
+ * @returns The regular expression matching the whole string
+ */
+function toGlobRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]'),
+    )
+    .join('.*')
+    .replace(/\/\.\*$/, '(/.*)?')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Finds the component schemas the endpoints reference, directly or through
+ * other schemas, including the members a discriminator maps to
+ * @param endpoints The API endpoints
+ * @param schemas The component schemas
+ * @returns The names of the referenced schemas
+ */
+function collectReachableSchemas(
+  endpoints: ApiEndpoint[],
+  schemas: Record<string, ApiSchema>,
+): Set<string> {
+  const reachable = new Set<string>()
+
+  const visitReference = (name: string): void => {
+    if (reachable.has(name)) return
+    reachable.add(name)
+    visit(schemas[name] || null)
+  }
+
+  const visit = (schema: ApiSchema | null): void => {
+    if (!schema) return
+
+    if (schema.reference) {
+      visitReference(schema.reference)
+      return
+    }
+
+    for (const child of [
+      ...Object.values(schema.properties),
+      ...(schema.items ? [schema.items] : []),
+      ...(schema.allOf || []),
+      ...(schema.oneOf || []),
+      ...(schema.anyOf || []),
+      ...getMapValueSchemas(schema),
+    ]) {
+      visit(child)
+    }
+    for (const name of Object.values(schema.discriminator?.mapping || {})) {
+      visitReference(name)
+    }
+  }
+
+  for (const endpoint of endpoints) {
+    for (const param of endpoint.parameters) {
+      visit(param.schema)
+    }
+    visit(endpoint.requestBody?.schema || null)
+    for (const media of Object.values(endpoint.requestBody?.content || {})) {
+      visit(media.schema)
+    }
+    for (const response of Object.values(endpoint.responses)) {
+      visit(response.schema)
+      for (const media of Object.values(response.content)) {
+        visit(media.schema)
+      }
+    }
+  }
+
+  return reachable
+}
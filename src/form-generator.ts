@@ -0,0 +1,293 @@
+import { ApiEncoding, ApiRequestBody, ApiSchema } from './types'
+import { toPropertyName } from './naming'
+
+/**
+ * The form encodings a request body can be sent in
+ */
+export type FormKind = 'multipart' | 'urlencoded'
+
+/**
+ * Determines the form encoding of a request body media type
+ * @param contentType The media type of the request body
+ * @returns The form encoding, or null if the body is not a form
+ */
+export function getFormKind(contentType: string): FormKind | null {
+  if (contentType.startsWith('multipart/')) {
+    return 'multipart'
+  }
+  if (contentType.startsWith('application/x-www-form-urlencoded')) {
+    return 'urlencoded'
+  }
+  return null
+}
+
+/**
+ * Generates the statements building the `formBody` of a form request: a
+ * FormData for multipart bodies, URLSearchParams for urlencoded ones
+ * @param requestBody The request body of the endpoint
+ * @param schemas The component schemas, to resolve referenced bodies
+ * @param serialized The expression converting the dates and property names
+ * of the body data, or null if it holds none
+ * @returns The generated statements
+ */
+export function generateFormBody(
+  requestBody: ApiRequestBody,
+  schemas: Record<string, ApiSchema>,
+  serialized: string | null,
+): string {
+  const fields = serialized ? 'fields' : 'data'
+  const optional = !requestBody.required
+  const kind = getFormKind(requestBody.contentType)
+  const body = requestBody.schema
+    ? collectProperties(requestBody.schema, schemas)
+    : { properties: {} }
+  const properties = body.properties
+
+  let content = ''
+  if (kind === 'multipart') {
+    content += `    // Build the multipart form; the boundary is set by fetch\n`
+  } else {
+    content += `    // Build the urlencoded form\n`
+  }
+  if (serialized) {
+    content += `    const fields = ${serialized};\n`
+  }
+  content +=
+    kind === 'multipart'
+      ? `    const formBody = new FormData();\n`
+      : `    const formBody = new URLSearchParams();\n`
+
+  if (Object.keys(properties).length === 0) {
+    // Free-form bodies are sent field by field
+    const value =
+      kind === 'multipart'
+        ? 'value instanceof Blob ? value : String(value)'
+        : 'String(value)'
+    content += `    for (const [key, value] of Object.entries(${fields}${optional ? ' ?? {}' : ''})) {\n`
+    content += `      formBody.append(key, ${value});\n`
+    content += `    }\n`
+    return content
+  }
+
+  for (const [name, propSchema] of Object.entries(properties)) {
+    // Serialized fields carry the names of the specification already
+    const access = toFieldAccess(
+      fields,
+      serialized ? name : toPropertyName(body, name),
+      optional,
+    )
+    const schema = resolveSchema(propSchema, schemas)
+    const encoding = requestBody.encoding[name] || {
+      contentType: '',
+      style: 'form',
+      explode: true,
+    }
+
+    content += `    if (${access} != null) {\n`
+    content +=
+      kind === 'multipart'
+        ? generateMultipartAppend(name, schema, access, encoding, schemas)
+        : generateUrlencodedAppend(name, schema, access, encoding)
+    content += `    }\n`
+  }
+
+  return content
+}
+
+/**
+ * Generates the statements appending a multipart form field. Arrays are
+ * sent as one part per item; objects are sent as JSON, and other values
+ * as text unless the encoding specifies a JSON content type
+ * @param name The field name
+ * @param schema The resolved schema of the field
+ * @param access The expression of the field value
+ * @param encoding The encoding of the field
+ * @param schemas The component schemas, to resolve array items
+ * @returns The generated statements
+ */
+function generateMultipartAppend(
+  name: string,
+  schema: ApiSchema,
+  access: string,
+  encoding: ApiEncoding,
+  schemas: Record<string, ApiSchema>,
+): string {
+  const key = toStringLiteral(name)
+
+  if (schema.type === 'array') {
+    const itemSchema = schema.items
+      ? resolveSchema(schema.items, schemas)
+      : schema
+    let content = `      for (const item of ${access}) {\n`
+    content += `        formBody.append(${key}, ${toPartValue(itemSchema, 'item', encoding)});\n`
+    content += `      }\n`
+    return content
+  }
+
+  return `      formBody.append(${key}, ${toPartValue(schema, access, encoding)});\n`
+}
+
+/**
+ * Generates the value of a multipart part
+ * @param schema The resolved schema of the value
+ * @param value The expression of the value
+ * @param encoding The encoding of the field
+ * @returns The part value expression
+ */
+function toPartValue(
+  schema: ApiSchema,
+  value: string,
+  encoding: ApiEncoding,
+): string {
+  if (schema.type === 'string' && schema.format === 'binary') {
+    // Files carry their own media type and name
+    return value
+  }
+
+  const contentType =
+    encoding.contentType || (isObjectSchema(schema) ? 'application/json' : '')
+  if (/json/.test(contentType)) {
+    return `new Blob([toJson(${value}) ?? ''], { type: ${toStringLiteral(contentType)} })`
+  }
+  if (!schema.type) {
+    return `${value} instanceof Blob ? ${value} : String(${value})`
+  }
+
+  return `String(${value})`
+}
+
+/**
+ * Generates the statements appending an urlencoded form field, serialized
+ * according to the style and explode settings of its encoding
+ * @param name The field name
+ * @param schema The resolved schema of the field
+ * @param access The expression of the field value
+ * @param encoding The encoding of the field
+ * @returns The generated statements
+ */
+function generateUrlencodedAppend(
+  name: string,
+  schema: ApiSchema,
+  access: string,
+  encoding: ApiEncoding,
+): string {
+  const key = toStringLiteral(name)
+  const separator =
+    encoding.style === 'spaceDelimited'
+      ? ' '
+      : encoding.style === 'pipeDelimited'
+        ? '|'
+        : ','
+
+  if (schema.type === 'array') {
+    if (encoding.explode) {
+      let content = `      for (const item of ${access}) {\n`
+      content += `        formBody.append(${key}, String(item));\n`
+      content += `      }\n`
+      return content
+    }
+    return `      formBody.append(${key}, ${access}.map(String).join(${toStringLiteral(separator)}));\n`
+  }
+
+  if (isObjectSchema(schema)) {
+    if (encoding.style === 'deepObject' || encoding.explode) {
+      const entryKey =
+        encoding.style === 'deepObject' ? `\`${name}[\${key}]\`` : 'key'
+      let content = `      for (const [key, value] of Object.entries(${access})) {\n`
+      content += `        formBody.append(${entryKey}, String(value));\n`
+      content += `      }\n`
+      return content
+    }
+    return `      formBody.append(${key}, Object.entries(${access}).map(([key, value]) => \`\${key},\${value}\`).join(','));\n`
+  }
+
+  return `      formBody.append(${key}, String(${access}));\n`
+}
+
+/**
+ * Collects the properties of a body schema, following references and
+ * merging the members of allOf compositions
+ * @param schema The body schema
+ * @param schemas The component schemas
+ * @returns The properties by name, with the generated names of the renamed
+ * ones
+ */
+function collectProperties(
+  schema: ApiSchema,
+  schemas: Record<string, ApiSchema>,
+): Pick<ApiSchema, 'properties' | 'propertyNames'> {
+  const resolved = resolveSchema(schema, schemas)
+  const properties: Record<string, ApiSchema> = {}
+  const propertyNames: Record<string, string> = {}
+  for (const member of resolved.allOf || []) {
+    const collected = collectProperties(member, schemas)
+    Object.assign(properties, collected.properties)
+    Object.assign(propertyNames, collected.propertyNames)
+  }
+  Object.assign(properties, resolved.properties)
+  Object.assign(propertyNames, resolved.propertyNames)
+  return { properties, propertyNames }
+}
+
+/**
+ * Follows the references of a schema to the component schema they target
+ * @param schema The schema to resolve
+ * @param schemas The component schemas
+ * @returns The resolved schema, or the schema itself for unknown references
+ */
+function resolveSchema(
+  schema: ApiSchema,
+  schemas: Record<string, ApiSchema>,
+): ApiSchema {
+  const seen = new Set<string>()
+  let resolved = schema
+  while (
+    resolved.reference &&
+    schemas[resolved.reference] &&
+    !seen.has(resolved.reference)
+  ) {
+    seen.add(resolved.reference)
+    resolved = schemas[resolved.reference]
+  }
+  return resolved
+}
+
+/**
+ * Checks whether a resolved schema describes an object
+ * @param schema The schema to check
+ * @returns True if values of the schema are objects
+ */
+function isObjectSchema(schema: ApiSchema): boolean {
+  return (
+    schema.type === 'object' ||
+    Object.keys(schema.properties).length > 0 ||
+    Boolean(schema.allOf || schema.oneOf || schema.anyOf)
+  )
+}
+
+/**
+ * Builds the expression accessing a field of the body data
+ * @param fields The expression of the body data
+ * @param name The field name
+ * @param optional Whether the body data may be undefined
+ * @returns The access expression
+ */
+function toFieldAccess(
+  fields: string,
+  name: string,
+  optional: boolean,
+): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(name)) {
+    return `${fields}${optional ? '?.' : '.'}${name}`
+  }
+  return `${fields}${optional ? '?.' : ''}[${toStringLiteral(name)}]`
+}
+
+/**
+ * Quotes a string for the generated code
+ * @param value The string to quote
+ * @returns The single-quoted string literal
+ */
+function toStringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
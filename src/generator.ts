@@ -2,43 +2,171 @@ import {
   ParsedSpec,
   ApiSchema,
   ApiEndpoint,
+  ApiParameter,
   TypeDefinitions,
   TypeDefinition,
+  ApiSecurityScheme,
+  ApiDiscriminator,
+  GenerationOptions,
 } from './types'
+import { toEnumKeys, toPascalCase, toPropertyName } from './naming'
+import {
+  finalizeZodSchemas,
+  processZodComponent,
+  processZodSchema,
+  resolveZodReferences,
+} from './zod-generator'
+import {
+  ConverterContext,
+  containsInt64,
+  createConverterContext,
+  toConverterExpression,
+} from './converter-generator'
+import { generateFormBody, getFormKind } from './form-generator'
+import { MediaKind, getMediaKind, selectMediaType } from './media-types'
+import { generateMockHandlers } from './mock-generator'
+import { generateFactories } from './factory-generator'
+import { resolveNames } from './name-resolver'
+import { breakAliasCycles } from './schema-cycles'
+import {
+  declareRecursiveMaps,
+  hasMapValues,
+  isMapSchema,
+  toKeyType,
+} from './map-types'
+import {
+  describeParameter,
+  describeSchema,
+  escapeJsDoc,
+  generateJsDoc,
+} from './jsdoc'
+import {
+  generateQueryHooks,
+  MethodParameter,
+  QueryOperation,
+  toParameterDeclaration,
+} from './query-generator'
 
 /**
  * Generates TypeScript definitions from a parsed Swagger/OpenAPI specification
  * @param parsedSpec The parsed Swagger/OpenAPI specification
+ * @param options The generation options
  * @returns Generated TypeScript definitions
  */
 export function generateTypeDefinitions(
   parsedSpec: ParsedSpec,
+  options: GenerationOptions = {},
 ): TypeDefinitions {
+  const names = resolveNames(parsedSpec, options.naming, options.outputMode)
+  const cycles = breakAliasCycles(names.spec.components.schemas)
+  const spec: ParsedSpec = {
+    ...names.spec,
+    components: { ...names.spec.components, schemas: cycles.schemas },
+  }
   const typeDefinitions: TypeDefinitions = {
     interfaces: [],
     types: [],
     enums: [],
+    errors: [],
     apiClasses: [],
-  } // Process schemas from components
-  for (const [name, schema] of Object.entries(parsedSpec.components.schemas)) {
-    processSchema(schema, typeDefinitions)
+    validators: [],
+    converters: [],
+    factories: [],
+    mocks: [],
+    queries: [],
+    warnings: [...names.warnings, ...cycles.warnings],
+    security: generateSecurityDefinition(spec.components.securitySchemes),
+  }
+  const emitZodSchemas = options.zodSchemas || options.validateResponses
+  // Wire types need converters only to rename properties
+  const converters =
+    options.wireTypes && !options.naming?.property
+      ? null
+      : createConverterContext(
+          spec.components.schemas,
+          typeDefinitions,
+          !options.wireTypes,
+        )
+
+  // Process schemas from components
+  for (const [name, schema] of Object.entries(spec.components.schemas)) {
+    const typeName = processSchema(schema, typeDefinitions, options)
+
+    // Primitive and alias schemas produce no declaration of their own,
+    // but other schemas still reference them by name
+    if (typeName !== name && !findExistingType(name, typeDefinitions)) {
+      const dependencies: string[] = []
+      addDependency(typeName, dependencies)
+      typeDefinitions.types.push({
+        name,
+        content:
+          generateJsDoc(describeSchema(schema)) +
+          `export type ${name} = ${typeName};`,
+        dependencies,
+      })
+    }
+
+    if (emitZodSchemas) {
+      processZodComponent(name, schema, typeDefinitions, options)
+    }
+  }
+
+  if (options.factories) {
+    generateFactories(spec.components.schemas, typeDefinitions, options)
   }
 
   // Process API endpoints
-  const endpointsByTag = groupEndpointsByTag(parsedSpec)
+  const endpointsByTag = groupEndpointsByTag(spec)
+  const hookOperationIds = new Set<string>()
 
   for (const [tag, endpoints] of Object.entries(endpointsByTag)) {
-    const apiClassName = toPascalCase(tag) + 'Api'
-    const apiClassContent = generateApiClass(
+    const apiClassName = names.apiClassNames[tag]
+    const apiClass = generateApiClass(
       apiClassName,
       endpoints as ApiEndpoint[],
+      typeDefinitions,
+      options,
+      converters,
+      spec.components.schemas,
     )
 
-    typeDefinitions.apiClasses.push({
-      name: apiClassName,
-      content: apiClassContent,
-      dependencies: [],
-    })
+    typeDefinitions.apiClasses.push(apiClass)
+
+    if (options.mocks) {
+      typeDefinitions.mocks.push(
+        generateMockHandlers(
+          tag,
+          names.tagNames[tag],
+          endpoints,
+          spec.components.schemas,
+        ),
+      )
+    }
+
+    if (options.queryHooks) {
+      // Operations with several tags get their hooks under the first one
+      const operations = endpoints
+        .filter((endpoint) => !hookOperationIds.has(endpoint.operationId))
+        .map((endpoint) => {
+          hookOperationIds.add(endpoint.operationId)
+          return toQueryOperation(endpoint, typeDefinitions, options)
+        })
+      if (operations.length > 0) {
+        typeDefinitions.queries.push(
+          generateQueryHooks(
+            tag,
+            names.tagNames[tag],
+            apiClassName,
+            operations,
+          ),
+        )
+      }
+    }
+  }
+
+  declareRecursiveMaps(typeDefinitions.types)
+  if (emitZodSchemas) {
+    finalizeZodSchemas(typeDefinitions)
   }
 
   return typeDefinitions
@@ -80,11 +208,13 @@ function groupEndpointsByTag(
  * Processes a schema and adds the corresponding TypeScript definitions
  * @param schema The API schema to process
  * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
  * @returns The TypeScript type name for the schema
  */
 function processSchema(
   schema: ApiSchema,
   typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
 ): string {
   if (schema.reference) {
     return schema.reference
@@ -97,22 +227,24 @@ function processSchema(
   }
 
   if (schema.enum && schema.enum.length > 0) {
-    return processEnumSchema(schema, typeDefinitions)
+    return processEnumSchema(schema, typeDefinitions, options)
+  } else if (isMapSchema(schema)) {
+    return processMapSchema(schema, typeDefinitions, options)
   } else if (
     schema.type === 'object' ||
     Object.keys(schema.properties).length > 0
   ) {
-    return processObjectSchema(schema, typeDefinitions)
+    return processObjectSchema(schema, typeDefinitions, options)
   } else if (schema.type === 'array' && schema.items) {
-    return processArraySchema(schema, typeDefinitions)
+    return processArraySchema(schema, typeDefinitions, options)
   } else if (schema.allOf && schema.allOf.length > 0) {
-    return processAllOfSchema(schema, typeDefinitions)
+    return processAllOfSchema(schema, typeDefinitions, options)
   } else if (schema.oneOf && schema.oneOf.length > 0) {
-    return processOneOfSchema(schema, typeDefinitions)
+    return processOneOfSchema(schema, typeDefinitions, options)
   } else if (schema.anyOf && schema.anyOf.length > 0) {
-    return processAnyOfSchema(schema, typeDefinitions)
+    return processAnyOfSchema(schema, typeDefinitions, options)
   } else {
-    return toTsType(schema.type, schema.format)
+    return toTsType(schema.type, schema.format, options)
   }
 }
 
@@ -143,32 +275,57 @@ function findExistingType(
  * Processes an enum schema and adds it to the TypeScript definitions
  * @param schema The enum schema to process
  * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
  * @returns The TypeScript type name for the schema
  */
 function processEnumSchema(
   schema: ApiSchema,
   typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
 ): string {
-  const name = sanitizeTypeName(schema.name)
+  const name = schema.name
   const enumValues = schema.enum || []
-  const isStringEnum = enumValues.every((value) => typeof value === 'string')
+  const literals = enumValues.map((value) => JSON.stringify(value))
+
+  // Only string and number values can be members of an enum or object
+  const hasMembers = enumValues.every(
+    (value) =>
+      typeof value === 'string' ||
+      (typeof value === 'number' && Number.isFinite(value)),
+  )
+  const enumStyle = hasMembers ? options.enumStyle || 'enum' : 'union'
+  const keys = toEnumKeys(enumValues, schema.enumNames)
+  const toMemberJsDoc = (index: number): string => {
+    const description = schema.enumDescriptions?.[index]
+    return description ? generateJsDoc(description.split('\n'), '  ') : ''
+  }
 
-  let enumContent = ''
+  let enumContent = generateJsDoc(describeSchema(schema))
 
-  if (isStringEnum) {
-    enumContent = `export enum ${name} {\n`
-    enumValues.forEach((value) => {
-      // Create a valid enum key from the value
-      const key = String(value).replace(/[^a-zA-Z0-9_]/g, '_')
-      enumContent += `  ${key} = "${value}",\n`
+  if (enumStyle === 'enum') {
+    enumContent += `export enum ${name} {\n`
+    keys.forEach((key, index) => {
+      enumContent += toMemberJsDoc(index)
+      enumContent += `  ${key} = ${literals[index]},\n`
     })
     enumContent += '}'
+  } else if (enumStyle === 'const') {
+    enumContent += `export const ${name} = {\n`
+    keys.forEach((key, index) => {
+      enumContent += toMemberJsDoc(index)
+      enumContent += `  ${key}: ${literals[index]},\n`
+    })
+    enumContent += '} as const;\n'
+    enumContent += `export type ${name} = (typeof ${name})[keyof typeof ${name}];`
   } else {
-    enumContent = `export type ${name} = ${enumValues
-      .map((value) => JSON.stringify(value))
-      .join(' | ')};`
+    enumContent += `export type ${name} = ${literals.join(' | ')};`
   }
 
+  // All values in declaration order, e.g. for select options
+  const valueList =
+    enumStyle === 'union' ? literals : keys.map((key) => `${name}.${key}`)
+  enumContent += `\n\nexport const ${name}Values: readonly ${name}[] = [${valueList.join(', ')}];`
+
   typeDefinitions.enums.push({
     name,
     content: enumContent,
@@ -182,22 +339,26 @@ function processEnumSchema(
  * Processes an object schema and adds it to the TypeScript definitions
  * @param schema The object schema to process
  * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
  * @returns The TypeScript type name for the schema
  */
 function processObjectSchema(
   schema: ApiSchema,
   typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
 ): string {
-  const name = sanitizeTypeName(schema.name)
-  let interfaceContent = `export interface ${name} {\n`
+  const name = schema.name
+  let interfaceContent = generateJsDoc(describeSchema(schema))
+  interfaceContent += `export interface ${name} {\n`
   const dependencies: string[] = []
   for (const [propName, propSchemaRaw] of Object.entries(schema.properties)) {
     const propSchema = propSchemaRaw as ApiSchema
-    const propType = processSchema(propSchema, typeDefinitions)
+    const propType = processSchema(propSchema, typeDefinitions, options)
     const isRequired = schema.required.includes(propName)
     const nullable = propSchema.nullable ? ' | null' : ''
 
-    interfaceContent += `  ${propName}${
+    interfaceContent += generateJsDoc(describeSchema(propSchema), '  ')
+    interfaceContent += `  ${toPropertyKey(toPropertyName(schema, propName))}${
       isRequired ? '' : '?'
     }: ${propType}${nullable};\n`
 
@@ -206,6 +367,18 @@ function processObjectSchema(
     }
   }
 
+  if (hasMapValues(schema)) {
+    const signatures = toIndexSignatures(
+      schema,
+      typeDefinitions,
+      options,
+      dependencies,
+    )
+    for (const [key, type] of signatures) {
+      interfaceContent += `  [key: ${key}]: ${type};\n`
+    }
+  }
+
   interfaceContent += '}'
 
   typeDefinitions.interfaces.push({
@@ -217,29 +390,164 @@ function processObjectSchema(
   return name
 }
 
+/**
+ * Processes a map schema, which declares no properties of its own, and adds
+ * it to the TypeScript definitions as a Record, or as an object type for
+ * keys of several kinds
+ * @param schema The map schema to process
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @returns The TypeScript type name for the schema
+ */
+function processMapSchema(
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): string {
+  const name = schema.name
+  const dependencies: string[] = []
+  const signatures = toIndexSignatures(
+    schema,
+    typeDefinitions,
+    options,
+    dependencies,
+  )
+
+  // additionalProperties: false alone allows no property at all
+  const mapType =
+    signatures.length === 0
+      ? 'Record<string, never>'
+      : signatures.length === 1
+        ? `Record<${signatures[0][0]}, ${signatures[0][1]}>`
+        : `{\n${signatures.map(([key, type]) => `  [key: ${key}]: ${type};\n`).join('')}}`
+
+  typeDefinitions.types.push({
+    name,
+    content:
+      generateJsDoc(describeSchema(schema)) +
+      `export type ${name} = ${mapType};`,
+    dependencies,
+  })
+
+  return name
+}
+
+/**
+ * Builds the index signatures typing the properties an object schema does
+ * not declare. Patterns become template literal keys where possible, and
+ * string keys otherwise. Every signature also admits the declared
+ * properties whose names it matches, as TypeScript requires
+ * @param schema The object or map schema
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @param dependencies The dependencies of the declaration to add to
+ * @returns The key and value type of every signature, string keys first
+ */
+function toIndexSignatures(
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+  dependencies: string[],
+): Array<[string, string]> {
+  const toValueType = (valueSchema: ApiSchema): string => {
+    const valueType = processSchema(valueSchema, typeDefinitions, options)
+    addDependency(valueType, dependencies)
+    return valueSchema.nullable ? `${valueType} | null` : valueType
+  }
+
+  const signatures = new Map<string, string[]>()
+  const addSignature = (key: string, types: string[]): void => {
+    signatures.set(key, [...(signatures.get(key) || []), ...types])
+  }
+
+  if (schema.additionalProperties === true) {
+    addSignature('string', ['any'])
+  } else if (schema.additionalProperties) {
+    addSignature('string', [toValueType(schema.additionalProperties)])
+  }
+  for (const [pattern, valueSchema] of Object.entries(
+    schema.patternProperties,
+  )) {
+    addSignature(toKeyType(pattern) || 'string', [toValueType(valueSchema)])
+  }
+
+  const propertyTypes = Object.entries(schema.properties).map(
+    ([propName, propSchema]) => {
+      const types = [processSchema(propSchema, typeDefinitions, options)]
+      if (propSchema.nullable) types.push('null')
+      if (!schema.required.includes(propName)) types.push('undefined')
+      return { propName: toPropertyName(schema, propName), types }
+    },
+  )
+  for (const [key, types] of signatures) {
+    if (key === 'string') continue
+    const keyPattern = new RegExp(
+      `^${key
+        .slice(1, -1)
+        .split('${string}')
+        .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`,
+    )
+    for (const property of propertyTypes) {
+      if (keyPattern.test(property.propName)) {
+        types.push(...property.types)
+      }
+    }
+  }
+  // The string signature covers every other signature and property
+  const stringTypes = signatures.get('string')
+  if (stringTypes) {
+    for (const [key, types] of signatures) {
+      if (key !== 'string') stringTypes.push(...types)
+    }
+    for (const property of propertyTypes) {
+      stringTypes.push(...property.types)
+    }
+  }
+
+  return [...signatures]
+    .sort(([a], [b]) => Number(b === 'string') - Number(a === 'string'))
+    .map(([key, types]) => [key, joinValueTypes(types)])
+}
+
+/**
+ * Joins the value types of an index signature into a union
+ * @param types The value types, which may be unions themselves
+ * @returns The union, `any` if any of them is
+ */
+function joinValueTypes(types: string[]): string {
+  const members = [...new Set(types.flatMap((type) => type.split(' | ')))]
+  return members.includes('any') ? 'any' : members.join(' | ')
+}
+
 /**
  * Processes an array schema and adds it to the TypeScript definitions
  * @param schema The array schema to process
  * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
  * @returns The TypeScript type name for the schema
  */
 function processArraySchema(
   schema: ApiSchema,
   typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
 ): string {
   if (!schema.items) {
     return 'any[]'
   }
 
-  const itemType = processSchema(schema.items, typeDefinitions)
-  const name = sanitizeTypeName(schema.name)
+  const itemType = processSchema(schema.items, typeDefinitions, options)
+  const name = schema.name
 
   const dependencies: string[] = []
   if (!isBasicType(itemType)) {
     dependencies.push(itemType)
   }
 
-  const arrayTypeContent = `export type ${name} = ${itemType}[];`
+  const elementType = itemType.includes(' | ') ? `(${itemType})` : itemType
+  const arrayTypeContent =
+    generateJsDoc(describeSchema(schema)) +
+    `export type ${name} = ${elementType}[];`
 
   typeDefinitions.types.push({
     name,
@@ -254,21 +562,23 @@ function processArraySchema(
  * Processes an allOf schema and adds it to the TypeScript definitions
  * @param schema The allOf schema to process
  * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
  * @returns The TypeScript type name for the schema
  */
 function processAllOfSchema(
   schema: ApiSchema,
   typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
 ): string {
   if (!schema.allOf) {
     return 'any'
   }
 
-  const name = sanitizeTypeName(schema.name)
+  const name = schema.name
   const dependencies: string[] = []
 
   const componentTypes = schema.allOf.map((component) => {
-    const componentType = processSchema(component, typeDefinitions)
+    const componentType = processSchema(component, typeDefinitions, options)
     if (!isBasicType(componentType)) {
       dependencies.push(componentType)
     }
@@ -276,7 +586,9 @@ function processAllOfSchema(
   })
 
   // Create an intersection type
-  const typeContent = `export type ${name} = ${componentTypes.join(' & ')};`
+  const typeContent =
+    generateJsDoc(describeSchema(schema)) +
+    `export type ${name} = ${componentTypes.join(' & ')};`
 
   typeDefinitions.types.push({
     name,
@@ -291,29 +603,42 @@ function processAllOfSchema(
  * Processes a oneOf schema and adds it to the TypeScript definitions
  * @param schema The oneOf schema to process
  * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
  * @returns The TypeScript type name for the schema
  */
 function processOneOfSchema(
   schema: ApiSchema,
   typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
 ): string {
   if (!schema.oneOf) {
     return 'any'
   }
 
-  const name = sanitizeTypeName(schema.name)
+  const name = schema.name
   const dependencies: string[] = []
 
   const componentTypes = schema.oneOf.map((component) => {
-    const componentType = processSchema(component, typeDefinitions)
+    const componentType = processSchema(component, typeDefinitions, options)
     if (!isBasicType(componentType)) {
       dependencies.push(componentType)
     }
     return componentType
   })
 
-  // Create a union type
-  const typeContent = `export type ${name} = ${componentTypes.join(' | ')};`
+  // Create a union type, discriminated if the schema declares it
+  const typeContent =
+    generateJsDoc(describeSchema(schema)) +
+    (schema.discriminator
+      ? generateDiscriminatedUnion(
+          name,
+          schema,
+          schema.discriminator,
+          schema.oneOf,
+          componentTypes,
+          typeDefinitions,
+        )
+      : `export type ${name} = ${componentTypes.join(' | ')};`)
 
   typeDefinitions.types.push({
     name,
@@ -328,21 +653,23 @@ function processOneOfSchema(
  * Processes an anyOf schema and adds it to the TypeScript definitions
  * @param schema The anyOf schema to process
  * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
  * @returns The TypeScript type name for the schema
  */
 function processAnyOfSchema(
   schema: ApiSchema,
   typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
 ): string {
   if (!schema.anyOf) {
     return 'any'
   }
 
-  const name = sanitizeTypeName(schema.name)
+  const name = schema.name
   const dependencies: string[] = []
 
   const componentTypes = schema.anyOf.map((component) => {
-    const componentType = processSchema(component, typeDefinitions)
+    const componentType = processSchema(component, typeDefinitions, options)
     if (!isBasicType(componentType)) {
       dependencies.push(componentType)
     }
@@ -350,7 +677,18 @@ function processAnyOfSchema(
   })
 
   // Create a union type (same as oneOf in TypeScript)
-  const typeContent = `export type ${name} = ${componentTypes.join(' | ')};`
+  const typeContent =
+    generateJsDoc(describeSchema(schema)) +
+    (schema.discriminator
+      ? generateDiscriminatedUnion(
+          name,
+          schema,
+          schema.discriminator,
+          schema.anyOf,
+          componentTypes,
+          typeDefinitions,
+        )
+      : `export type ${name} = ${componentTypes.join(' | ')};`)
 
   typeDefinitions.types.push({
     name,
@@ -361,38 +699,166 @@ function processAnyOfSchema(
   return name
 }
 
+/**
+ * Generates a discriminated union whose members have the discriminator
+ * property narrowed to their values, followed by a type guard per member
+ * @param name The union type name
+ * @param union The union schema
+ * @param discriminator The discriminator of the union
+ * @param members The member schemas
+ * @param memberTypes The TypeScript types of the members
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @returns The union type and type guard declarations
+ */
+function generateDiscriminatedUnion(
+  name: string,
+  union: ApiSchema,
+  discriminator: ApiDiscriminator,
+  members: ApiSchema[],
+  memberTypes: string[],
+  typeDefinitions: TypeDefinitions,
+): string {
+  const { mapping } = discriminator
+  const propertyName = toPropertyName(union, discriminator.propertyName)
+  const key = toPropertyKey(propertyName)
+  const access = key === propertyName ? `.${key}` : `[${key}]`
+  const unionMembers: string[] = []
+  let guards = ''
+
+  members.forEach((member, index) => {
+    const memberType = memberTypes[index]
+    const values = Object.keys(mapping).filter(
+      (value) => member.reference && mapping[value] === member.reference,
+    )
+
+    // Inline members cannot be selected by the mapping
+    if (values.length === 0) {
+      unionMembers.push(memberType)
+      return
+    }
+
+    const literals = values.map((value) => JSON.stringify(value))
+    const discriminant = `{ ${key}: ${literals.join(' | ')} }`
+    unionMembers.push(
+      `(Omit<${memberType}, ${JSON.stringify(propertyName)}> & ${discriminant})`,
+    )
+
+    const guardName = toGuardName(memberType, name, typeDefinitions)
+    guards += `\n\n/**\n`
+    guards += ` * Checks whether a ${name} is a ${memberType}\n`
+    guards += ` */\n`
+    guards += `export function ${guardName}(value: ${name}): value is Extract<${name}, ${discriminant}> {\n`
+    guards += `  return ${literals
+      .map((literal) => `value${access} === ${literal}`)
+      .join(' || ')};\n`
+    guards += `}`
+  })
+
+  return `export type ${name} =\n  | ${unionMembers.join('\n  | ')};${guards}`
+}
+
+/**
+ * Names the type guard of a union member, qualified by the union when
+ * another union already has a guard for the same member
+ * @param memberType The member type name
+ * @param unionName The union type name
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @returns The type guard name
+ */
+function toGuardName(
+  memberType: string,
+  unionName: string,
+  typeDefinitions: TypeDefinitions,
+): string {
+  const guardName = `is${memberType}`
+  const isTaken = typeDefinitions.types.some((definition) =>
+    definition.content.includes(`export function ${guardName}(`),
+  )
+
+  return isTaken ? `is${unionName}${memberType}` : guardName
+}
+
 /**
  * Generates an API class for a group of endpoints
  * @param apiClassName The name of the API class
  * @param endpoints The endpoints to include in the API class
- * @returns The generated API class content
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @param converters The converter context, or null when nothing is converted
+ * @param schemas The component schemas of the specification
+ * @returns The generated API class definition
  */
 function generateApiClass(
   apiClassName: string,
   endpoints: ApiEndpoint[],
-): string {
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+  converters: ConverterContext | null,
+  schemas: Record<string, ApiSchema>,
+): TypeDefinition {
+  const dependencies: string[] = []
+  const hasSecurity = typeDefinitions.security !== null
+  const configType = hasSecurity ? 'ApiConfig<AuthConfig>' : 'ApiConfig'
+  const httpClientArgs = hasSecurity ? 'config, securitySchemes' : 'config'
+
+  // Error unions of the operations, shared by every class of their tags
+  for (const endpoint of endpoints) {
+    declareErrorType(endpoint, typeDefinitions, options)
+    addDependency(`${toPascalCase(endpoint.operationId)}Error`, dependencies)
+  }
+
   let content = `export class ${apiClassName} {\n`
-  content += `  private baseUrl: string;\n\n`
+  content += `  private http: HttpClient;\n\n`
 
-  content += `  constructor(baseUrl: string = '') {\n`
-  content += `    this.baseUrl = baseUrl;\n`
+  content += `  /**\n`
+  content += `   * @param config Base URL, transport configuration or a shared HttpClient\n`
+  content += `   */\n`
+  content += `  constructor(config: ${configType} | HttpClient | string = {}) {\n`
+  content += `    this.http = config instanceof HttpClient ? config : new HttpClient(${httpClientArgs});\n`
   content += `  }\n\n`
 
   for (const endpoint of endpoints) {
-    content += generateEndpointMethod(endpoint)
+    content += generateEndpointMethod(
+      endpoint,
+      typeDefinitions,
+      dependencies,
+      hasSecurity,
+      options,
+      converters,
+      schemas,
+    )
     content += '\n'
   }
 
   content += `}\n`
-  return content
+
+  return {
+    name: apiClassName,
+    content,
+    dependencies,
+  }
 }
 
 /**
  * Generates a method for an API endpoint
  * @param endpoint The API endpoint
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param dependencies The dependencies of the enclosing API class
+ * @param hasSecurity Whether the API declares security schemes
+ * @param options The generation options
+ * @param converters The converter context, or null when nothing is converted
+ * @param schemas The component schemas of the specification
  * @returns The generated method content
  */
-function generateEndpointMethod(endpoint: ApiEndpoint): string {
+function generateEndpointMethod(
+  endpoint: ApiEndpoint,
+  typeDefinitions: TypeDefinitions,
+  dependencies: string[],
+  hasSecurity: boolean,
+  options: GenerationOptions,
+  converters: ConverterContext | null,
+  schemas: Record<string, ApiSchema>,
+): string {
   const methodName = endpoint.operationId
   const path = endpoint.path
   const method = endpoint.method.toUpperCase()
@@ -402,74 +868,90 @@ function generateEndpointMethod(endpoint: ApiEndpoint): string {
   const pathParams = endpoint.parameters.filter((p) => p.in === 'path')
   const headerParams = endpoint.parameters.filter((p) => p.in === 'header')
 
-  let methodParams = ''
   let methodJsDoc = `  /**\n`
-  methodJsDoc += `   * ${endpoint.summary}\n`
+  methodJsDoc += `   * ${escapeJsDoc(endpoint.summary)}\n`
   if (endpoint.description) {
-    methodJsDoc += `   * ${endpoint.description}\n`
-  }
-
-  // Add path parameters
-  if (pathParams.length > 0) {
-    methodParams += pathParams
-      .map((p) => {
-        methodJsDoc += `   * @param ${p.name} ${p.description}\n`
-        const tsType = p.schema
-          ? toTsType(p.schema.type, p.schema.format)
-          : 'any'
-        return `${p.name}: ${tsType}`
-      })
-      .join(', ')
+    for (const line of endpoint.description.trimEnd().split('\n')) {
+      methodJsDoc += `   *${line ? ' ' + escapeJsDoc(line) : ''}\n`
+    }
   }
-
-  // Add query parameters
-  if (queryParams.length > 0) {
-    if (methodParams) methodParams += ', '
-    methodJsDoc += `   * @param queryParams Query parameters\n`
-    methodParams += `queryParams: { ${queryParams
-      .map((p) => {
-        const tsType = p.schema
-          ? toTsType(p.schema.type, p.schema.format)
-          : 'any'
-        return `${p.name}${p.required ? '' : '?'}: ${tsType}`
-      })
-      .join('; ')} }`
+  if (endpoint.deprecated) {
+    methodJsDoc += `   * @deprecated\n`
   }
 
-  // Add request body parameter
-  if (endpoint.requestBody) {
-    if (methodParams) methodParams += ', '
-    methodJsDoc += `   * @param data Request body data\n`
-    methodParams += `data: any` // We'll refine this later
+  const parameters = toMethodParameters(
+    endpoint,
+    typeDefinitions,
+    dependencies,
+    options,
+  )
+  let methodParams = parameters.map(toParameterDeclaration).join(', ')
+  for (const parameter of parameters) {
+    methodJsDoc += `   * @param ${parameter.name} ${parameter.description}\n`
+
+    // Document the members of the query parameter and header objects
+    const members =
+      parameter.in === 'query'
+        ? queryParams
+        : parameter.in === 'header'
+          ? headerParams
+          : []
+    for (const param of members) {
+      methodJsDoc +=
+        `   * @param ${parameter.name}.${param.name} ${describeParameter(param)}`.trimEnd()
+      methodJsDoc += '\n'
+    }
   }
 
-  // Add headers parameter
-  if (headerParams.length > 0) {
-    if (methodParams) methodParams += ', '
-    methodJsDoc += `   * @param headers Custom headers\n`
-    methodParams += `headers?: Record<string, string>`
-  }
+  const responseTypes = resolveResponseMediaTypes(
+    endpoint,
+    typeDefinitions,
+    dependencies,
+    options,
+  )
+  const mediaTypes = Object.keys(responseTypes)
+  const accept = selectMediaType(mediaTypes)
+  const negotiated = mediaTypes.length > 1
+  const returnType = accept
+    ? joinTypes(Object.values(responseTypes))
+    : resolveResponseType(endpoint, typeDefinitions, dependencies, options)
 
   // Add options parameter
   if (methodParams) methodParams += ', '
-  methodJsDoc += `   * @param options Request options\n`
-  methodParams += `options?: RequestOptions`
+  methodJsDoc += negotiated
+    ? `   * @param options Request options; \`accept\` selects the media type of the response\n`
+    : `   * @param options Request options\n`
 
+  const errorTypeName = `${toPascalCase(methodName)}Error`
+  methodJsDoc += `   * @throws {${errorTypeName}} For responses outside the 2xx range\n`
   methodJsDoc += `   */\n`
 
-  // Build method signature
-  let methodContent = `${methodJsDoc}  async ${toCamelCase(
-    methodName,
-  )}(${methodParams}): Promise<any> {\n`
+  // Build method signature; operations with several response media types
+  // get one overload per media type, the preferred one first
+  let methodContent = methodJsDoc
+  if (accept && negotiated) {
+    for (const mediaType of [
+      accept,
+      ...mediaTypes.filter((type) => type !== accept),
+    ]) {
+      const acceptType = `{ accept${mediaType === accept ? '?' : ''}: '${mediaType}' }`
+      methodContent += `  ${methodName}(${methodParams}options?: RequestOptions & ${acceptType}): Promise<${responseTypes[mediaType]}>;\n`
+    }
+    const acceptUnion = mediaTypes.map((type) => `'${type}'`).join(' | ')
+    methodContent += `  async ${methodName}(${methodParams}options?: RequestOptions & { accept?: ${acceptUnion} }): Promise<${returnType}> {\n`
+    methodContent += `    const { accept = '${accept}', ...requestOptions } = options || {};\n`
+  } else {
+    methodContent += `  async ${methodName}(${methodParams}options?: RequestOptions): Promise<${returnType}> {\n`
+  }
 
   // URL construction
-  methodContent += `    let url = this.baseUrl + '${path}';\n`
+  methodContent += `    let url = '${path}';\n`
 
   // Replace path parameters
   if (pathParams.length > 0) {
     methodContent += `\n    // Replace path parameters\n`
     for (const param of pathParams) {
-      methodContent += `    url = url.replace('{${param.name}}', encodeURIComponent(String(${param.name})));\n`
+      methodContent += `    url = url.replace('{${param.name}}', encodeURIComponent(${toParameterString(param, param.name, options)}));\n`
     }
   }
 
@@ -479,7 +961,7 @@ function generateEndpointMethod(endpoint: ApiEndpoint): string {
     methodContent += `    const searchParams = new URLSearchParams();\n`
     for (const param of queryParams) {
       methodContent += `    if (queryParams.${param.name} !== undefined) {\n`
-      methodContent += `      searchParams.append('${param.name}', String(queryParams.${param.name}));\n`
+      methodContent += `      searchParams.append('${param.name}', ${toParameterString(param, `queryParams.${param.name}`, options)});\n`
       methodContent += `    }\n`
     }
     methodContent += `    const queryString = searchParams.toString();\n`
@@ -488,74 +970,832 @@ function generateEndpointMethod(endpoint: ApiEndpoint): string {
     methodContent += `    }\n`
   }
 
+  // Build form bodies
+  const formKind = endpoint.requestBody
+    ? getFormKind(endpoint.requestBody.contentType)
+    : null
+  if (endpoint.requestBody && formKind) {
+    const serialized = converters
+      ? toSerializedBody(endpoint, dependencies, converters)
+      : null
+    methodContent += '\n'
+    methodContent += generateFormBody(endpoint.requestBody, schemas, serialized)
+  }
+
   // Prepare request options
   methodContent += `\n    // Prepare request options\n`
-  methodContent += `    const fetchOptions: RequestInit = {\n`
+  methodContent += `    const fetchOptions: RequestOptions = {\n`
   methodContent += `      method: '${method}',\n`
-  methodContent += `      ...options,\n`
-  methodContent += `      headers: {\n`
-  methodContent += `        'Content-Type': 'application/json',\n`
+  if (hasSecurity && endpoint.security.length > 0) {
+    methodContent += `      security: ${JSON.stringify(endpoint.security)},\n`
+  }
+  let headerEntries = ''
+  // Multipart bodies leave the Content-Type to fetch, which adds the boundary
+  if (formKind !== 'multipart') {
+    headerEntries += `        'Content-Type': '${toRequestContentType(endpoint)}',\n`
+  }
+  if (negotiated) {
+    headerEntries += `        Accept: accept,\n`
+  } else if (accept && getMediaKind(accept) !== 'auto') {
+    headerEntries += `        Accept: '${accept}',\n`
+  }
 
   // Add header parameters
   if (headerParams.length > 0) {
     for (const param of headerParams) {
       if (param.required) {
-        methodContent += `        '${param.name}': headers?.['${param.name}'] || '',\n`
+        headerEntries += `        '${param.name}': headers?.['${param.name}'] || '',\n`
       } else {
-        methodContent += `        ...(headers?.['${param.name}'] ? { '${param.name}': headers['${param.name}'] } : {}),\n`
+        headerEntries += `        ...(headers?.['${param.name}'] ? { '${param.name}': headers['${param.name}'] } : {}),\n`
       }
     }
+    headerEntries += `        ...headers,\n`
   }
 
-  methodContent += `        ...headers,\n`
-  methodContent += `      },\n`
+  if (headerEntries) {
+    methodContent += `      headers: {\n${headerEntries}      },\n`
+  }
 
   // Add request body
   if (endpoint.requestBody) {
-    methodContent += `      body: JSON.stringify(data),\n`
+    const body = formKind
+      ? 'formBody'
+      : isRawBody(endpoint.requestBody.contentType)
+        ? 'data'
+        : generateRequestBody(endpoint, dependencies, converters)
+    methodContent += `      body: ${body},\n`
   }
 
   methodContent += `    };\n\n`
 
   // Make fetch request
   methodContent += `    // Make request\n`
-  methodContent += `    const response = await fetch(url, fetchOptions);\n`
-  methodContent += `    const contentType = response.headers.get('Content-Type') || '';\n\n`
+  methodContent += `    const response = await this.http.request(url, fetchOptions, ${
+    negotiated ? 'requestOptions' : 'options'
+  });\n\n`
 
   // Handle response
   methodContent += `    // Handle response\n`
   methodContent += `    if (!response.ok) {\n`
-  methodContent += `      throw new Error(\`API error: \${response.status} \${await response.text()}\`);\n`
+  methodContent += `      throw await ApiError.fromResponse(response);\n`
   methodContent += `    }\n\n`
 
-  // Parse response body
+  // Parse response body according to the requested media type
   methodContent += `    // Parse response body\n`
-  methodContent += `    if (contentType.includes('application/json')) {\n`
-  methodContent += `      return await response.json();\n`
-  methodContent += `    } else {\n`
-  methodContent += `      return await response.text();\n`
-  methodContent += `    }\n`
+  const toBodyParsing = (kind: MediaKind, types: string[]): string =>
+    kind === 'json' || kind === 'auto'
+      ? generateJsonParsing(
+          endpoint,
+          joinTypes(types),
+          typeDefinitions,
+          dependencies,
+          options,
+          converters,
+        )
+      : generateBodyParsing(kind)
+
+  if (!accept) {
+    methodContent += toBodyParsing('json', [returnType])
+  } else {
+    const acceptKind = toParsingKind(accept)
+    const kinds: Partial<Record<MediaKind, string[]>> = {}
+    for (const mediaType of mediaTypes) {
+      const kind = toParsingKind(mediaType)
+      kinds[kind] = [...(kinds[kind] || []), mediaType]
+    }
+
+    for (const [kind, kindMediaTypes] of Object.entries(kinds)) {
+      if (kind === acceptKind) continue
+      const condition = kindMediaTypes
+        .map((mediaType) => `accept === '${mediaType}'`)
+        .join(' || ')
+      methodContent += `    if (${condition}) {\n`
+      methodContent += toBodyParsing(
+        kind as MediaKind,
+        kindMediaTypes.map((mediaType) => responseTypes[mediaType]),
+      ).replace(/^(?=.)/gm, '  ')
+      methodContent += `    }\n`
+    }
+
+    methodContent += toBodyParsing(
+      acceptKind,
+      (kinds[acceptKind] || []).map((mediaType) => responseTypes[mediaType]),
+    )
+  }
 
   methodContent += `  }\n`
   return methodContent
 }
 
+/**
+ * Builds the parameters of the method of an endpoint: path parameters, the
+ * query parameters object, the request body and custom headers
+ * @param endpoint The API endpoint
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param dependencies The dependencies of the definition using the parameters
+ * @param options The generation options
+ * @returns The parameters in declaration order
+ */
+function toMethodParameters(
+  endpoint: ApiEndpoint,
+  typeDefinitions: TypeDefinitions,
+  dependencies: string[],
+  options: GenerationOptions,
+): MethodParameter[] {
+  const parameters: MethodParameter[] = []
+  const queryParams = endpoint.parameters.filter((p) => p.in === 'query')
+  const pathParams = endpoint.parameters.filter((p) => p.in === 'path')
+  const headerParams = endpoint.parameters.filter((p) => p.in === 'header')
+
+  for (const p of pathParams) {
+    parameters.push({
+      name: p.name,
+      in: 'path',
+      type: p.schema
+        ? toTsType(p.schema.type, p.schema.format, options)
+        : 'any',
+      optional: false,
+      description: describeParameter(p),
+    })
+  }
+
+  if (queryParams.length > 0) {
+    const members = queryParams.map((p) => {
+      const tsType = p.schema
+        ? toTsType(p.schema.type, p.schema.format, options)
+        : 'any'
+      return `${p.name}${p.required ? '' : '?'}: ${tsType}`
+    })
+    parameters.push({
+      name: 'queryParams',
+      in: 'query',
+      type: `{ ${members.join('; ')} }`,
+      optional: false,
+      description: 'Query parameters',
+    })
+  }
+
+  if (endpoint.requestBody) {
+    const bodyType = endpoint.requestBody.schema
+      ? processSchema(endpoint.requestBody.schema, typeDefinitions, options)
+      : toMediaTsType(endpoint.requestBody.contentType)
+    addDependency(bodyType, dependencies)
+
+    parameters.push({
+      name: 'data',
+      in: 'body',
+      type: bodyType,
+      optional: !endpoint.requestBody.required,
+      description: 'Request body data',
+    })
+  }
+
+  if (headerParams.length > 0) {
+    parameters.push({
+      name: 'headers',
+      in: 'header',
+      type: 'Record<string, string>',
+      optional: true,
+      description: 'Custom headers',
+    })
+  }
+
+  return parameters
+}
+
+/**
+ * Collects the signature of the method of an endpoint for its query or
+ * mutation hook
+ * @param endpoint The API endpoint
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @returns The operation with its parameters, response and error types
+ */
+function toQueryOperation(
+  endpoint: ApiEndpoint,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): QueryOperation {
+  // The types were declared by the API class already
+  const dependencies: string[] = []
+  const responseTypes = resolveResponseMediaTypes(
+    endpoint,
+    typeDefinitions,
+    dependencies,
+    options,
+  )
+  const accept = selectMediaType(Object.keys(responseTypes))
+
+  return {
+    endpoint,
+    parameters: toMethodParameters(
+      endpoint,
+      typeDefinitions,
+      dependencies,
+      options,
+    ),
+    responseType: accept
+      ? responseTypes[accept]
+      : resolveResponseType(endpoint, typeDefinitions, dependencies, options),
+    errorType: `${toPascalCase(endpoint.operationId)}Error`,
+  }
+}
+
+/**
+ * Generates the parsing of a response body read as JSON when the response
+ * says so, and as text otherwise
+ * @param endpoint The API endpoint
+ * @param returnType The type of the parsed body
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param dependencies The dependencies of the enclosing API class
+ * @param options The generation options
+ * @param converters The converter context, or null when nothing is converted
+ * @returns The generated statements
+ */
+function generateJsonParsing(
+  endpoint: ApiEndpoint,
+  returnType: string,
+  typeDefinitions: TypeDefinitions,
+  dependencies: string[],
+  options: GenerationOptions,
+  converters: ConverterContext | null,
+): string {
+  // Bodies with int64 values are parsed without rounding large integers
+  const exact =
+    converters !== null &&
+    Object.entries(endpoint.responses).some(
+      ([statusCode, response]) =>
+        statusCode.startsWith('2') &&
+        response.schema !== null &&
+        containsInt64(response.schema, converters),
+    )
+  const readJson = exact
+    ? 'parseJson(await response.text())'
+    : 'await response.json()'
+
+  let content = `    const contentType = response.headers.get('Content-Type') || '';\n`
+  content += `    if (contentType.includes('application/json')) {\n`
+  if (options.validateResponses) {
+    content += generateResponseParsing(endpoint, readJson, (schema) => {
+      const validator = resolveZodReferences(
+        processZodSchema(schema, typeDefinitions, options),
+        (name) => {
+          addDependency(name, dependencies)
+          return name
+        },
+      )
+      return `${validator}.parse(data)`
+    })
+  } else if (converters) {
+    content += generateResponseParsing(endpoint, readJson, (schema) =>
+      toConverterExpression('revive', schema, 'data', converters, dependencies),
+    )
+  } else {
+    content += `      return await response.json();\n`
+  }
+  content += `    } else {\n`
+  if (returnType === 'string' || returnType === 'any') {
+    content += `      return await response.text();\n`
+  } else {
+    content += `      return (await response.text()) as unknown as ${returnType};\n`
+  }
+  content += `    }\n`
+
+  return content
+}
+
+/**
+ * Generates the reading of a response body that is not JSON
+ * @param kind How the body is read
+ * @returns The generated statement
+ */
+function generateBodyParsing(kind: MediaKind): string {
+  switch (kind) {
+    case 'text':
+      return `    return await response.text();\n`
+    case 'stream':
+      return `    return response.body ?? new Blob().stream();\n`
+    default:
+      return `    return await response.blob();\n`
+  }
+}
+
+/**
+ * Determines how the response body of a media type is parsed; wildcard
+ * media types share the parsing of JSON
+ * @param mediaType The media type
+ * @returns The media kind
+ */
+function toParsingKind(mediaType: string): MediaKind {
+  const kind = getMediaKind(mediaType)
+  return kind === 'auto' ? 'json' : kind
+}
+
+/**
+ * Generates the parsing of a JSON response body, validating or converting
+ * it according to the schemas of the endpoint's 2xx responses
+ * @param endpoint The API endpoint
+ * @param readJson The expression reading the body as JSON
+ * @param toExpression Builds the expression processing `data` for a schema,
+ * or returns null if the data is used as is
+ * @returns The generated statements
+ */
+function generateResponseParsing(
+  endpoint: ApiEndpoint,
+  readJson: string,
+  toExpression: (schema: ApiSchema) => string | null,
+): string {
+  const expressions: Record<string, string> = {}
+  for (const [statusCode, response] of Object.entries(endpoint.responses)) {
+    if (statusCode.startsWith('2') && response.schema) {
+      const expression = toExpression(response.schema)
+      if (expression) {
+        expressions[statusCode] = expression
+      }
+    }
+  }
+
+  const uniqueExpressions = [...new Set(Object.values(expressions))]
+  if (uniqueExpressions.length === 0) {
+    return `      return ${readJson};\n`
+  }
+
+  let content = `      const data = ${readJson};\n`
+  if (
+    uniqueExpressions.length === 1 &&
+    Object.keys(expressions).length ===
+      Object.keys(endpoint.responses).filter((statusCode) =>
+        statusCode.startsWith('2'),
+      ).length
+  ) {
+    content += `      return ${uniqueExpressions[0]};\n`
+  } else {
+    // Different schemas per status code; a range like 2XX covers the
+    // status codes that are not declared on their own
+    const range = Object.keys(expressions).find(
+      (statusCode) => !/^\d+$/.test(statusCode),
+    )
+    const unprocessed: string[] = []
+    content += `      switch (response.status) {\n`
+    for (const [statusCode, response] of Object.entries(endpoint.responses)) {
+      if (!/^2\d\d$/.test(statusCode) || !response.schema) {
+        continue
+      }
+      if (expressions[statusCode]) {
+        content += `        case ${statusCode}:\n`
+        content += `          return ${expressions[statusCode]};\n`
+      } else {
+        unprocessed.push(statusCode)
+      }
+    }
+    if (range) {
+      for (const statusCode of unprocessed) {
+        content += `        case ${statusCode}:\n`
+      }
+      if (unprocessed.length > 0) {
+        content += `          return data;\n`
+      }
+      content += `        default:\n`
+      content += `          return ${expressions[range]};\n`
+      content += `      }\n`
+    } else {
+      content += `      }\n`
+      content += `      return data;\n`
+    }
+  }
+
+  return content
+}
+
+/**
+ * Generates the request body expression: JSON, with dates converted to
+ * their wire format and bigint values written as numbers unless the
+ * types are wire types
+ * @param endpoint The API endpoint
+ * @param dependencies The dependencies of the enclosing API class
+ * @param converters The converter context, or null when nothing is converted
+ * @returns The body expression
+ */
+function generateRequestBody(
+  endpoint: ApiEndpoint,
+  dependencies: string[],
+  converters: ConverterContext | null,
+): string {
+  if (!converters) {
+    return 'JSON.stringify(data)'
+  }
+
+  const serialized = toSerializedBody(endpoint, dependencies, converters)
+  return `toJson(${serialized || 'data'})`
+}
+
+/**
+ * Generates the expression converting the dates in the request body data
+ * to their wire format
+ * @param endpoint The API endpoint
+ * @param dependencies The dependencies of the enclosing API class
+ * @param converters The converter context
+ * @returns The expression, or null if the body holds no dates
+ */
+function toSerializedBody(
+  endpoint: ApiEndpoint,
+  dependencies: string[],
+  converters: ConverterContext,
+): string | null {
+  const schema = endpoint.requestBody?.schema
+  const serialized = schema
+    ? toConverterExpression(
+        'serialize',
+        schema,
+        'data',
+        converters,
+        dependencies,
+      )
+    : null
+  if (!serialized) {
+    return null
+  }
+
+  return endpoint.requestBody?.required
+    ? serialized
+    : `data === undefined ? data : ${serialized}`
+}
+
+/**
+ * Resolves the return type of an endpoint method from its 2xx responses
+ * @param endpoint The API endpoint
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param dependencies The dependencies of the enclosing API class
+ * @param options The generation options
+ * @returns The union of the success response types
+ */
+function resolveResponseType(
+  endpoint: ApiEndpoint,
+  typeDefinitions: TypeDefinitions,
+  dependencies: string[],
+  options: GenerationOptions,
+): string {
+  const responseTypes: string[] = []
+
+  for (const [statusCode, response] of Object.entries(endpoint.responses)) {
+    if (!statusCode.startsWith('2')) {
+      continue
+    }
+
+    // Responses without a schema (e.g. 204 No Content) carry no body
+    const responseType = response.schema
+      ? processSchema(response.schema, typeDefinitions, options)
+      : 'void'
+    addDependency(responseType, dependencies)
+
+    if (!responseTypes.includes(responseType)) {
+      responseTypes.push(responseType)
+    }
+  }
+
+  return responseTypes.length > 0 ? responseTypes.join(' | ') : 'any'
+}
+
+/**
+ * Resolves the body types of an endpoint's 2xx responses per media type;
+ * responses without a body add void to every media type
+ * @param endpoint The API endpoint
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param dependencies The dependencies of the enclosing API class
+ * @param options The generation options
+ * @returns The union of the response types, by media type
+ */
+function resolveResponseMediaTypes(
+  endpoint: ApiEndpoint,
+  typeDefinitions: TypeDefinitions,
+  dependencies: string[],
+  options: GenerationOptions,
+): Record<string, string> {
+  const typesByMediaType: Record<string, string[]> = {}
+  let hasEmptyResponse = false
+
+  for (const [statusCode, response] of Object.entries(endpoint.responses)) {
+    if (!statusCode.startsWith('2')) {
+      continue
+    }
+
+    const content = Object.entries(response.content)
+    if (content.length === 0) {
+      hasEmptyResponse = true
+    }
+    for (const [mediaType, media] of content) {
+      const kind = getMediaKind(mediaType)
+      const responseType =
+        media.schema && (kind === 'json' || kind === 'auto')
+          ? processSchema(media.schema, typeDefinitions, options)
+          : toMediaTsType(mediaType)
+      addDependency(responseType, dependencies)
+
+      const types = typesByMediaType[mediaType] || []
+      if (!types.includes(responseType)) {
+        typesByMediaType[mediaType] = [...types, responseType]
+      }
+    }
+  }
+
+  const responseTypes: Record<string, string> = {}
+  for (const [mediaType, types] of Object.entries(typesByMediaType)) {
+    responseTypes[mediaType] = joinTypes(
+      hasEmptyResponse ? [...types, 'void'] : types,
+    )
+  }
+  return responseTypes
+}
+
+/**
+ * Returns the TypeScript type of a body that is not described by a model:
+ * text as string, streamed media types as ReadableStream and other
+ * non-JSON media types as Blob
+ * @param mediaType The media type of the body
+ * @returns The TypeScript type
+ */
+function toMediaTsType(mediaType: string): string {
+  switch (getMediaKind(mediaType)) {
+    case 'text':
+      return 'string'
+    case 'binary':
+      return 'Blob'
+    case 'stream':
+      return 'ReadableStream<Uint8Array>'
+    default:
+      return 'any'
+  }
+}
+
+/**
+ * Joins types into a union, skipping duplicates
+ * @param types The types to join
+ * @returns The union type
+ */
+function joinTypes(types: string[]): string {
+  const unique = [...new Set(types.flatMap((type) => type.split(' | ')))]
+  return unique.length > 0 ? unique.join(' | ') : 'any'
+}
+
+/**
+ * Returns the Content-Type header of an endpoint's request
+ * @param endpoint The API endpoint
+ * @returns The media type of the request body, JSON without one
+ */
+function toRequestContentType(endpoint: ApiEndpoint): string {
+  const contentType = endpoint.requestBody?.contentType
+  return contentType && getMediaKind(contentType) !== 'auto'
+    ? contentType
+    : 'application/json'
+}
+
+/**
+ * Checks whether a request body media type is sent as is: text and binary
+ * bodies are passed to fetch without serialization
+ * @param contentType The media type of the request body
+ * @returns True if the data is the request body
+ */
+function isRawBody(contentType: string): boolean {
+  const kind = getMediaKind(contentType)
+  return kind === 'text' || kind === 'binary' || kind === 'stream'
+}
+
+/**
+ * Declares the union of the errors an endpoint method throws, one ApiError
+ * member per declared non-2xx response so that callers can narrow on status.
+ * Operations with several tags are declared once
+ * @param endpoint The API endpoint
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ */
+function declareErrorType(
+  endpoint: ApiEndpoint,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): void {
+  const typeName = `${toPascalCase(endpoint.operationId)}Error`
+  if (typeDefinitions.errors.some((error) => error.name === typeName)) {
+    return
+  }
+
+  const dependencies: string[] = []
+  const members: string[] = []
+  const errorResponses = Object.entries(endpoint.responses).filter(
+    ([statusCode]) => !statusCode.startsWith('2'),
+  )
+  const declaredStatuses = errorResponses
+    .map(([statusCode]) => statusCode)
+    .filter((statusCode) => /^\d{3}$/.test(statusCode))
+
+  for (const [statusCode, response] of errorResponses) {
+    const bodyType = response.schema
+      ? processSchema(response.schema, typeDefinitions, options)
+      : 'unknown'
+    addDependency(bodyType, dependencies)
+
+    const statusType = toErrorStatusType(statusCode, declaredStatuses)
+    const member = `ApiError<${bodyType}, ${statusType}>`
+    if (!members.includes(member)) {
+      members.push(member)
+    }
+  }
+
+  let content = `/**\n`
+  content += ` * Errors declared by ${endpoint.operationId}\n`
+  content += ` */\n`
+  content += `export type ${typeName} = ${
+    members.length > 0 ? members.join(' | ') : 'ApiError'
+  };`
+
+  typeDefinitions.errors.push({ name: typeName, content, dependencies })
+}
+
+/**
+ * Resolves the status type of an error response. Ranges and the default
+ * response cover the statuses without a response of their own, as literal
+ * unions so that comparing the status narrows the error union
+ * @param statusCode The status code key of the response
+ * @param declaredStatuses The exact status codes the endpoint declares
+ * @returns The status type
+ */
+function toErrorStatusType(
+  statusCode: string,
+  declaredStatuses: string[],
+): string {
+  if (/^\d{3}$/.test(statusCode)) {
+    return statusCode
+  }
+
+  let statusType: string
+  switch (statusCode.toUpperCase()) {
+    case '4XX':
+      statusType = 'ClientErrorStatus'
+      break
+    case '5XX':
+      statusType = 'ServerErrorStatus'
+      break
+    case 'DEFAULT':
+      statusType = 'ClientErrorStatus | ServerErrorStatus'
+      break
+    default:
+      return 'number'
+  }
+
+  return declaredStatuses.length > 0
+    ? `Exclude<${statusType}, ${declaredStatuses.join(' | ')}>`
+    : statusType
+}
+
+/**
+ * Generates the expression writing a path or query parameter value as a
+ * string: dates in their RFC 3339 format unless the types are wire types
+ * @param param The parameter
+ * @param value The expression of the value
+ * @param options The generation options
+ * @returns The string expression
+ */
+function toParameterString(
+  param: ApiParameter,
+  value: string,
+  options: GenerationOptions,
+): string {
+  const schema = param.schema
+  if (options.wireTypes || schema?.type !== 'string') {
+    return `String(${value})`
+  }
+
+  switch (schema.format) {
+    case 'date':
+      return `${value}.toISOString().slice(0, 10)`
+    case 'date-time':
+      return `${value}.toISOString()`
+    default:
+      return `String(${value})`
+  }
+}
+
+/**
+ * Records a type as a dependency unless it is a basic type or already known
+ * @param typeName The TypeScript type name
+ * @param dependencies The list of dependencies to add to
+ */
+function addDependency(typeName: string, dependencies: string[]): void {
+  if (!isBasicType(typeName) && !dependencies.includes(typeName)) {
+    dependencies.push(typeName)
+  }
+}
+
+/**
+ * Generates the typed authentication configuration and the security scheme
+ * map used by the HttpClient to authenticate requests
+ * @param securitySchemes The security schemes of the specification
+ * @returns The security definition, or null if the API declares no schemes
+ */
+function generateSecurityDefinition(
+  securitySchemes: Record<string, ApiSecurityScheme>,
+): TypeDefinition | null {
+  const schemes = Object.values(securitySchemes)
+  if (schemes.length === 0) {
+    return null
+  }
+
+  let content = `/**\n`
+  content += ` * Credentials for the security schemes of the API\n`
+  content += ` */\n`
+  content += `export type AuthConfig = {\n`
+  for (const scheme of schemes) {
+    content += `  /** ${scheme.description || describeSecurityScheme(scheme)} */\n`
+    content += `  ${toPropertyKey(scheme.name)}?: ${getCredentialType(scheme)};\n`
+  }
+  content += `};\n\n`
+
+  content += `/**\n`
+  content += ` * The security schemes of the API, applied by the HttpClient\n`
+  content += ` */\n`
+  content += `export const securitySchemes: Record<string, SecurityScheme> = {\n`
+  for (const scheme of schemes) {
+    const runtimeScheme =
+      scheme.type === 'http'
+        ? { type: scheme.type, scheme: scheme.scheme }
+        : scheme.type === 'apiKey'
+          ? { type: scheme.type, in: scheme.in, name: scheme.parameterName }
+          : { type: scheme.type }
+    content += `  ${toPropertyKey(scheme.name)}: ${JSON.stringify(runtimeScheme)},\n`
+  }
+  content += `};`
+
+  return {
+    name: 'AuthConfig',
+    content,
+    dependencies: [],
+  }
+}
+
+/**
+ * Describes a security scheme for the generated documentation
+ * @param scheme The security scheme
+ * @returns A short description
+ */
+function describeSecurityScheme(scheme: ApiSecurityScheme): string {
+  switch (scheme.type) {
+    case 'http':
+      return `HTTP ${scheme.scheme} authentication`
+    case 'apiKey':
+      return `API key sent in the ${scheme.in} "${scheme.parameterName}"`
+    case 'oauth2':
+      return 'OAuth2 access token'
+    case 'openIdConnect':
+      return 'OpenID Connect access token'
+  }
+}
+
+/**
+ * Returns the credential type accepted for a security scheme
+ * @param scheme The security scheme
+ * @returns The TypeScript type of the credentials
+ */
+function getCredentialType(scheme: ApiSecurityScheme): string {
+  if (scheme.type === 'http' && scheme.scheme === 'basic') {
+    return 'BasicCredentialsProvider'
+  }
+  if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+    return 'OAuth2TokenProvider'
+  }
+  return 'TokenProvider'
+}
+
+/**
+ * Quotes a property name if it is not a valid identifier
+ * @param name The property name
+ * @returns The property key to use in generated code
+ */
+function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
 /**
  * Converts a Swagger/OpenAPI type to a TypeScript type
  * @param type The Swagger/OpenAPI type
  * @param format The Swagger/OpenAPI format
+ * @param options The generation options
  * @returns The corresponding TypeScript type
  */
-function toTsType(type?: string, format?: string): string {
+function toTsType(
+  type: string | undefined,
+  format: string | undefined,
+  options: GenerationOptions,
+): string {
   if (!type) return 'any'
 
   switch (type.toLowerCase()) {
     case 'integer':
     case 'number':
-      return format === 'int64' ? 'bigint' : 'number'
+      return format === 'int64' && !options.wireTypes ? 'bigint' : 'number'
     case 'string':
-      if (format === 'date' || format === 'date-time') return 'Date'
-      if (format === 'binary') return 'Blob'
+      if (format === 'date' || format === 'date-time') {
+        return options.wireTypes ? 'string' : 'Date'
+      }
+      if (format === 'binary') return 'Blob | File'
       return 'string'
     case 'boolean':
       return 'boolean'
@@ -579,10 +1819,14 @@ function isBasicType(typeName: string): boolean {
     'boolean',
     'any',
     'Date',
+    'bigint',
     'void',
     'null',
+    'unknown',
     'undefined',
     'Blob',
+    'Blob | File',
+    'ReadableStream<Uint8Array>',
   ]
 
   // Check for array types like string[], number[], etc.
@@ -592,66 +1836,3 @@ function isBasicType(typeName: string): boolean {
 
   return basicTypes.includes(typeName)
 }
-
-/**
- * Converts a string to Pascal case
- * @param str The input string
- * @returns The Pascal case string
- */
-function toPascalCase(str: string): string {
-  // Handle strings that already have mixed casing
-  // Check if the string already contains uppercase letters
-  const containsUppercase = /[A-Z]/.test(str)
-
-  if (containsUppercase) {
-    // Split string by delimiters but preserve existing case within words
-    return str
-      .split(/[-_\s]/)
-      .map((word) => {
-        // If the word is already in PascalCase or UPPERCASE, keep it as is
-        if (/^[A-Z]/.test(word)) {
-          return word
-        }
-        return word.charAt(0).toUpperCase() + word.slice(1)
-      })
-      .join('')
-  }
-
-  // Standard pascal case conversion for lowercase strings
-  return str
-    .split(/[-_\s]/)
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join('')
-}
-
-/**
- * Converts a string to camel case
- * @param str The input string
- * @returns The camel case string
- */
-function toCamelCase(str: string): string {
-  const pascal = toPascalCase(str)
-  return pascal.charAt(0).toLowerCase() + pascal.slice(1)
-}
-
-/**
- * Sanitizes a name to use as a TypeScript type name
- * @param name The name to sanitize
- * @returns The sanitized name
- */
-function sanitizeTypeName(name: string): string {
-  // Special case handling to prevent case distortion
-  // For names that contain uppercase letters and "DTO" suffix, preserve the exact case
-  if (/DTO$/.test(name) || /[A-Z][a-z]+[A-Z]/.test(name)) {
-    return name.replace(/[^\w]/g, '')
-  }
-
-  // If the name already follows PascalCase convention with uppercase letters, preserve it
-  if (/^[A-Z]/.test(name)) {
-    return name.replace(/[^\w]/g, '')
-  }
-
-  // Otherwise apply standard PascalCase conversion
-  let sanitized = name.replace(/[^\w\s]/g, '')
-  return toPascalCase(sanitized)
-}
@@ -1,32 +1,191 @@
+#!/usr/bin/env node
 import { fetchSwaggerSpec } from './fetcher'
+import { bundleSwaggerSpec } from './bundler'
 import { parseSwaggerSpec } from './parser'
+import { countOperations, filterSpec } from './filter'
 import { generateTypeDefinitions } from './generator'
 import { writeTypesToFile } from './writer'
+import {
+  parseCliArgs,
+  parseDiffArgs,
+  parseMockArgs,
+  printDiffHelp,
+  printHelp,
+  printMockHelp,
+} from './cli'
+import { diffSpecs, formatDiffReport } from './differ'
+import { formatDiagnostic, validateSpec } from './validator'
+import { createMockServer } from './mock-server'
+import { loadConfig, resolveJobs } from './config'
+import { GeneratorJob, ParsedSpec } from './types'
+
+/**
+ * Fetches, bundles and parses a specification
+ * @param input URL or file path of the specification
+ * @returns The parsed specification
+ */
+const loadParsedSpec = async (input: string): Promise<ParsedSpec> => {
+  const swaggerSpec = await fetchSwaggerSpec(input)
+  const bundledSpec = await bundleSwaggerSpec(swaggerSpec, input)
+  return parseSwaggerSpec(bundledSpec)
+}
+
+/**
+ * Generates the API client for a single job
+ * @param job The specification, output path and generation options
+ */
+const runJob = async (job: GeneratorJob) => {
+  console.log(`Fetching OpenAPI specification from: ${job.input}`)
+
+  const swaggerSpec = await fetchSwaggerSpec(job.input)
+  console.log('Successfully fetched OpenAPI specification')
+
+  console.log('Resolving external references...')
+  const bundledSpec = await bundleSwaggerSpec(swaggerSpec, job.input)
+
+  console.log('Validating OpenAPI specification...')
+  const diagnostics = validateSpec(bundledSpec)
+  for (const diagnostic of diagnostics) {
+    const log = diagnostic.severity === 'error' ? console.error : console.warn
+    log(formatDiagnostic(diagnostic))
+  }
+  const errorCount = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error',
+  ).length
+  if (errorCount > 0 && !job.ignoreValidationErrors) {
+    throw new Error(
+      `Specification has ${errorCount} error(s); fix them or pass --ignore-validation-errors`,
+    )
+  }
+
+  console.log('Parsing OpenAPI specification...')
+  let parsedSpec = parseSwaggerSpec(bundledSpec)
+
+  if (job.include || job.exclude) {
+    console.log('Filtering operations...')
+    const operationCount = countOperations(parsedSpec)
+    const schemaCount = Object.keys(parsedSpec.components.schemas).length
+    parsedSpec = filterSpec(parsedSpec, job.include, job.exclude)
+    console.log(
+      `Kept ${countOperations(parsedSpec)} of ${operationCount} operations and ${
+        Object.keys(parsedSpec.components.schemas).length
+      } of ${schemaCount} schemas`,
+    )
+  }
+
+  console.log('Generating TypeScript definitions...')
+  const typeDefinitions = generateTypeDefinitions(parsedSpec, job)
+  for (const warning of typeDefinitions.warnings) {
+    console.warn(`warning: ${warning}`)
+  }
+
+  console.log(`Writing TypeScript definitions to: ${job.output}`)
+  await writeTypesToFile(typeDefinitions, job.output, {
+    outputMode: job.outputMode,
+  })
+}
+
+/**
+ * Compares two specifications and prints the report; the exit code is 1
+ * when breaking changes are found
+ * @param argv The arguments after the command name
+ */
+const runDiff = async (argv: string[]) => {
+  const args = parseDiffArgs(argv)
+  if (args.help) {
+    printDiffHelp()
+    return
+  }
+  if (!args.oldSpec || !args.newSpec) {
+    printDiffHelp()
+    process.exit(1)
+  }
+
+  const [oldSpec, newSpec] = await Promise.all([
+    loadParsedSpec(args.oldSpec),
+    loadParsedSpec(args.newSpec),
+  ])
+  const changes = diffSpecs(oldSpec, newSpec)
+  console.log(formatDiffReport(changes, args.format))
+
+  if (changes.some((change) => change.severity === 'breaking')) {
+    process.exitCode = 1
+  }
+}
+
+/**
+ * Serves the example responses of a specification until the process is
+ * stopped
+ * @param argv The arguments after the command name
+ */
+const runMock = async (argv: string[]) => {
+  const args = parseMockArgs(argv)
+  if (args.help) {
+    printMockHelp()
+    return
+  }
+  if (!args.spec) {
+    printMockHelp()
+    process.exit(1)
+  }
+
+  const parsedSpec = await loadParsedSpec(args.spec)
+  const server = createMockServer(parsedSpec)
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(args.port, resolve)
+  })
+  console.log(`Mock server listening on http://localhost:${args.port}`)
+}
+
+/**
+ * Prefixes of the error messages, by command
+ */
+const ERROR_PREFIXES: Record<string, string> = {
+  diff: 'Error comparing specifications:',
+  mock: 'Error starting the mock server:',
+  generate: 'Error generating API types:',
+}
 
 const main = async () => {
-  try {
-    const url =
-      process.argv[2] ||
-      'https://fakerestapi.azurewebsites.net/swagger/v1/swagger.json'
-    console.log(`Fetching OpenAPI specification from Fake REST API: ${url}`)
+  const argv = process.argv.slice(2)
+  const command =
+    argv[0] === 'diff' || argv[0] === 'mock' ? argv[0] : 'generate'
 
-    const swaggerSpec = await fetchSwaggerSpec(url)
-    console.log('Successfully fetched OpenAPI specification')
+  try {
+    if (command === 'diff') {
+      await runDiff(argv.slice(1))
+      return
+    }
+    if (command === 'mock') {
+      await runMock(argv.slice(1))
+      return
+    }
 
-    console.log('Parsing OpenAPI specification...')
-    const parsedSpec = parseSwaggerSpec(swaggerSpec)
+    const args = parseCliArgs(argv)
+    if (args.help) {
+      printHelp()
+      return
+    }
 
-    console.log('Generating TypeScript definitions...')
-    const typeDefinitions = generateTypeDefinitions(parsedSpec)
+    const config = loadConfig(args.config)
+    const jobs = resolveJobs(config, args.overrides, args.jobs)
+    if (jobs.length === 0) {
+      printHelp()
+      process.exit(1)
+    }
 
-    const outputPath = process.argv[3] || './src/generated/api-types.ts'
-    console.log(`Writing TypeScript definitions to: ${outputPath}`)
-    await writeTypesToFile(typeDefinitions, outputPath)
+    for (const job of jobs) {
+      if (job.name) {
+        console.log(`\n[${job.name}]`)
+      }
+      await runJob(job)
+    }
 
     console.log('Done!')
   } catch (error: unknown) {
     console.error(
-      'Error generating API types:',
+      ERROR_PREFIXES[command],
       error instanceof Error ? error.message : String(error),
     )
     process.exit(1)
@@ -0,0 +1,141 @@
+import { ApiParameter, ApiSchema } from './types'
+
+/**
+ * Wraps lines in a JSDoc comment, on one line when there is only one
+ * @param lines The comment lines, e.g. a description and tags
+ * @param indent The indentation of the commented declaration
+ * @returns The comment followed by a line break, empty without lines
+ */
+export function generateJsDoc(lines: string[], indent = ''): string {
+  const escaped = lines.map(escapeJsDoc)
+  if (escaped.length === 0) {
+    return ''
+  }
+  if (escaped.length === 1) {
+    return `${indent}/** ${escaped[0]} */\n`
+  }
+
+  let content = `${indent}/**\n`
+  for (const line of escaped) {
+    content += `${indent} *${line ? ' ' + line : ''}\n`
+  }
+  content += `${indent} */\n`
+  return content
+}
+
+/**
+ * Escapes the comment terminator in text for a JSDoc comment
+ * @param text The text
+ * @returns The escaped text
+ */
+export function escapeJsDoc(text: string): string {
+  return text.replace(/\*\//g, '*\\/')
+}
+
+/**
+ * Describes a schema in JSDoc lines: its description and whether it is
+ * closed to other properties, then tags for deprecation, read-only
+ * properties, format, constraints, default and example
+ * @param schema The schema
+ * @returns The JSDoc lines, empty when the schema carries no metadata
+ */
+export function describeSchema(schema: ApiSchema): string[] {
+  const lines = toDescriptionLines(schema.description)
+  if (
+    schema.additionalProperties === false &&
+    Object.keys(schema.properties).length > 0
+  ) {
+    lines.push('Allows no properties besides the declared ones.')
+  }
+  if (schema.deprecated) {
+    lines.push('@deprecated')
+  }
+  if (schema.readOnly) {
+    lines.push('@readonly')
+  }
+  for (const [tag, value] of toConstraints(schema)) {
+    lines.push(`@${tag} ${value}`)
+  }
+  if (schema.default !== undefined) {
+    lines.push(`@default ${JSON.stringify(schema.default)}`)
+  }
+  if (schema.example !== undefined) {
+    const [first, ...rest] = JSON.stringify(schema.example, null, 2).split('\n')
+    lines.push(`@example ${first}`, ...rest)
+  }
+  return lines
+}
+
+/**
+ * Describes a method parameter in the text of its `@param` tag: the
+ * description followed by the format, constraints and default of its schema
+ * @param param The parameter
+ * @returns The description, empty when there is nothing to say
+ */
+export function describeParameter(param: ApiParameter): string {
+  const notes = param.schema
+    ? toConstraints(param.schema).map(([tag, value]) => `${tag} ${value}`)
+    : []
+  if (param.schema?.default !== undefined) {
+    notes.push(`default ${JSON.stringify(param.schema.default)}`)
+  }
+
+  let text = param.description.replace(/\s*\n\s*/g, ' ').trim()
+  if (param.deprecated) {
+    text = text ? `Deprecated. ${text}` : 'Deprecated.'
+  }
+  if (notes.length > 0) {
+    text += `${text ? ' ' : ''}(${notes.join(', ')})`
+  }
+  return escapeJsDoc(text)
+}
+
+/**
+ * Splits a description into lines, without trailing blank lines
+ * @param description The description from the specification
+ * @returns The lines
+ */
+function toDescriptionLines(description: string | undefined): string[] {
+  if (!description || !description.trim()) {
+    return []
+  }
+  return description.trimEnd().split('\n')
+}
+
+/**
+ * Collects the format and constraints of a schema as tag/value pairs
+ * @param schema The schema
+ * @returns The pairs, e.g. `['minimum', '1']`
+ */
+function toConstraints(schema: ApiSchema): Array<[string, string]> {
+  const constraints: Array<[string, string]> = []
+  if (schema.format) {
+    constraints.push(['format', schema.format])
+  }
+  if (schema.minimum !== undefined) {
+    constraints.push([
+      schema.exclusiveMinimum ? 'exclusiveMinimum' : 'minimum',
+      String(schema.minimum),
+    ])
+  }
+  if (schema.maximum !== undefined) {
+    constraints.push([
+      schema.exclusiveMaximum ? 'exclusiveMaximum' : 'maximum',
+      String(schema.maximum),
+    ])
+  }
+  for (const key of [
+    'minLength',
+    'maxLength',
+    'minItems',
+    'maxItems',
+  ] as const) {
+    if (schema[key] !== undefined) {
+      constraints.push([key, String(schema[key])])
+    }
+  }
+  if (schema.pattern) {
+    constraints.push(['pattern', schema.pattern])
+  }
+  return constraints
+}
@@ -0,0 +1,151 @@
+import { ApiSchema, TypeDefinition } from './types'
+
+/**
+ * Checks whether a schema is a map: an object declaring no properties of
+ * its own, only the values of properties with any name or a name matching
+ * a pattern
+ * @param schema The schema
+ * @returns True for schemas typed as `Record<string, Value>`
+ */
+export function isMapSchema(schema: ApiSchema): boolean {
+  return (
+    !schema.reference &&
+    !(schema.enum && schema.enum.length > 0) &&
+    Object.keys(schema.properties).length === 0 &&
+    !schema.allOf?.length &&
+    !schema.oneOf?.length &&
+    !schema.anyOf?.length &&
+    hasMapValues(schema)
+  )
+}
+
+/**
+ * Checks whether an object schema types the properties it does not declare,
+ * including closing them with `additionalProperties: false`
+ * @param schema The schema
+ * @returns True if additionalProperties or patternProperties is given
+ */
+export function hasMapValues(schema: ApiSchema): boolean {
+  return (
+    schema.additionalProperties !== null ||
+    Object.keys(schema.patternProperties).length > 0
+  )
+}
+
+/**
+ * Collects the schemas of the values of the properties an object schema
+ * does not declare
+ * @param schema The schema
+ * @returns The additionalProperties schema and the patternProperties schemas
+ */
+export function getMapValueSchemas(schema: ApiSchema): ApiSchema[] {
+  return [
+    ...(typeof schema.additionalProperties === 'object' &&
+    schema.additionalProperties
+      ? [schema.additionalProperties]
+      : []),
+    ...Object.values(schema.patternProperties),
+  ]
+}
+
+/**
+ * Converts a property name pattern to a template literal type where the
+ * pattern is a literal prefix, suffix or both around one wildcard, e.g.
+ * `^x-` to `` `x-${string}` `` and `\.json$` to `` `${string}.json` ``
+ * @param pattern The regular expression of the property names
+ * @returns The template literal type, 'string' for a pattern matching any
+ * name, or null when the pattern has no such type
+ */
+export function toKeyType(pattern: string): string | null {
+  const anchoredStart = pattern.startsWith('^')
+  const anchoredEnd = pattern.endsWith('$') && !pattern.endsWith('\\$')
+  const body = pattern.slice(
+    anchoredStart ? 1 : 0,
+    anchoredEnd ? -1 : pattern.length,
+  )
+
+  const parts = body.split(/\.[*+]/)
+  if (parts.length > 2) {
+    return null
+  }
+  const literals = parts.map(toLiteral)
+  if (literals.some((literal) => literal === null)) {
+    return null
+  }
+
+  const segments = [
+    anchoredStart ? '' : '${string}',
+    literals[0],
+    parts.length === 2 ? '${string}' : '',
+    parts.length === 2 ? literals[1] : '',
+    anchoredEnd ? '' : '${string}',
+  ]
+  const template = segments.join('').replace(/(\$\{string\})+/g, '${string}')
+  if (template === '${string}') {
+    return 'string'
+  }
+  // Index signatures take no literal types, only patterns
+  return template.includes('${string}') ? `\`${template}\`` : null
+}
+
+/**
+ * Checks whether a property name pattern compiles as a regular expression
+ * @param pattern The pattern
+ * @returns True if the pattern is valid
+ */
+export function isRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'u')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Declares the maps that reference themselves through type aliases only as
+ * object types with an index signature: `type A = Record<string, A>` is a
+ * circularity error, while `type A = { [key: string]: A }` resolves lazily
+ * @param types The type alias definitions, changed in place
+ */
+export function declareRecursiveMaps(types: TypeDefinition[]): void {
+  const definitions = new Map(
+    types.map((definition) => [definition.name, definition]),
+  )
+  const reachesItself = (name: string): boolean => {
+    const visited = new Set<string>()
+    const pending = [...(definitions.get(name)?.dependencies || [])]
+    while (pending.length > 0) {
+      const dependency = pending.pop()!
+      if (dependency === name) return true
+      if (visited.has(dependency)) continue
+      visited.add(dependency)
+      pending.push(...(definitions.get(dependency)?.dependencies || []))
+    }
+    return false
+  }
+
+  for (const definition of types) {
+    const match = definition.content.match(
+      /^export type (\w+) = Record<([^,]+), (.+)>;$/m,
+    )
+    if (match && reachesItself(definition.name)) {
+      definition.content = definition.content.replace(
+        match[0],
+        `export type ${match[1]} = {\n  [key: ${match[2]}]: ${match[3]};\n};`,
+      )
+    }
+  }
+}
+
+/**
+ * Unescapes the literal part of a pattern
+ * @param text The part of the pattern
+ * @returns The literal text, or null if the part is not a plain literal
+ */
+function toLiteral(text: string): string | null {
+  if (!/^(?:[\w\-/:@ ]|\\[^\w\s])*$/.test(text)) {
+    return null
+  }
+  return text.replace(/\\(.)/g, '$1')
+}
@@ -0,0 +1,73 @@
+/**
+ * How the body of a media type is read and typed: parsed JSON, text, a
+ * Blob or a ReadableStream. Wildcard media types are read according to
+ * the Content-Type of the response
+ */
+export type MediaKind = 'json' | 'text' | 'binary' | 'stream' | 'auto'
+
+/**
+ * Media types whose bodies are consumed as streams, e.g. server-sent events
+ * and newline-delimited JSON
+ */
+const STREAM_MEDIA_TYPES = [
+  'text/event-stream',
+  'application/x-ndjson',
+  'application/jsonl',
+  'application/jsonlines',
+  'application/x-jsonlines',
+  'application/stream+json',
+  'application/json-seq',
+]
+
+/**
+ * Determines how the body of a media type is read
+ * @param mediaType The media type, possibly with parameters
+ * @returns The media kind
+ */
+export function getMediaKind(mediaType: string): MediaKind {
+  const essence = mediaType.split(';')[0].trim().toLowerCase()
+
+  if (STREAM_MEDIA_TYPES.includes(essence)) {
+    return 'stream'
+  }
+  if (isJsonMediaType(essence)) {
+    return 'json'
+  }
+  if (essence.includes('*')) {
+    return 'auto'
+  }
+  if (
+    essence.startsWith('text/') ||
+    /^application\/(.+\+)?(xml|yaml|x-yaml|javascript)$/.test(essence)
+  ) {
+    return 'text'
+  }
+  return 'binary'
+}
+
+/**
+ * Checks whether a media type is JSON, e.g. application/json or
+ * application/problem+json
+ * @param mediaType The media type
+ * @returns True for JSON media types
+ */
+export function isJsonMediaType(mediaType: string): boolean {
+  return /^application\/(.+\+)?json\b/i.test(mediaType)
+}
+
+/**
+ * Selects the preferred of several declared media types: JSON when
+ * offered, then forms, then whatever the operation lists first
+ * @param mediaTypes The declared media types
+ * @returns The preferred media type, or undefined if there is none
+ */
+export function selectMediaType(mediaTypes: string[]): string | undefined {
+  return (
+    mediaTypes.find((type) => isJsonMediaType(type)) ||
+    mediaTypes.find((type) => type.startsWith('multipart/form-data')) ||
+    mediaTypes.find((type) =>
+      type.startsWith('application/x-www-form-urlencoded'),
+    ) ||
+    mediaTypes[0]
+  )
+}
@@ -0,0 +1,189 @@
+import { ApiEndpoint, ApiSchema, TypeDefinition } from './types'
+import { toPascalCase } from './naming'
+import {
+  buildExampleResponse,
+  ExampleResponse,
+  isJsonResponse,
+  toTextBody,
+} from './examples'
+
+/**
+ * Imports of the msw library used by the generated request handlers
+ */
+export const MSW_IMPORTS = [
+  "import { http, HttpResponse } from 'msw'",
+  "import type { HttpHandler, HttpResponseResolver } from 'msw'",
+]
+
+/**
+ * Generates the MSW request handlers for the operations of one tag, with
+ * example responses built from the specification
+ * @param tag The tag grouping the operations
+ * @param tagName The identifier of the tag, prefixing the generated names
+ * @param endpoints The endpoints of the tag
+ * @param schemas The component schemas of the specification
+ * @returns The definition of the `<tag>Handlers` function
+ */
+export function generateMockHandlers(
+  tag: string,
+  tagName: string,
+  endpoints: ApiEndpoint[],
+  schemas: Record<string, ApiSchema>,
+): TypeDefinition {
+  const handlersName = tagName + 'Handlers'
+  const examplesName = tagName + 'Examples'
+  const overridesName = toOverridesName(handlersName)
+
+  const responses = endpoints.map((endpoint) => ({
+    endpoint,
+    response: buildExampleResponse(endpoint, schemas),
+  }))
+  const withBody = responses.filter(
+    ({ response }) => response.body !== undefined,
+  )
+
+  let content = ''
+
+  if (withBody.length > 0) {
+    content += `/**\n`
+    content += ` * Example response bodies of the ${tag} operations\n`
+    content += ` */\n`
+    content += `export const ${examplesName} = {\n`
+    for (const { endpoint, response } of withBody) {
+      const body = isJsonResponse(response)
+        ? response.body
+        : toTextBody(response.body)
+      const literal = JSON.stringify(body, null, 2).replace(/\n/g, '\n  ')
+      content += `  ${endpoint.operationId}: ${literal},\n`
+    }
+    content += `};\n\n`
+  }
+
+  content += `/**\n`
+  content += ` * Resolvers replacing the example response of ${tag} operations\n`
+  content += ` */\n`
+  content += `export interface ${overridesName} {\n`
+  for (const { endpoint } of responses) {
+    content += `  ${endpoint.operationId}?: HttpResponseResolver${toParamsType(endpoint.path)};\n`
+  }
+  content += `}\n\n`
+
+  content += `/**\n`
+  content += ` * MSW request handlers for the ${tag} operations\n`
+  content += ` * @param overrides Resolvers replacing the example response of an operation\n`
+  content += ` * @param baseUrl Prefix of the handled paths, any origin by default\n`
+  content += ` * @returns The request handlers\n`
+  content += ` */\n`
+  content += `export function ${handlersName}(overrides: ${overridesName} = {}, baseUrl = '*'): HttpHandler[] {\n`
+  content += `  return [\n`
+  for (const { endpoint, response } of responses) {
+    const resolver = generateExampleResolver(
+      response,
+      `${examplesName}.${endpoint.operationId}`,
+    )
+    content += `    http.${endpoint.method}(\`\${baseUrl}${toPathPattern(endpoint.path)}\`, overrides.${endpoint.operationId} ?? ${resolver}),\n`
+  }
+  content += `  ];\n`
+  content += `}\n`
+
+  return {
+    name: handlersName,
+    content,
+    dependencies: [],
+  }
+}
+
+/**
+ * Generates the `handlers` function combining the handlers of every tag
+ * @param mocks The handler definitions of all tags
+ * @returns The combined handlers content
+ */
+export function generateCombinedHandlers(mocks: TypeDefinition[]): string {
+  const overrides = mocks.map((mock) => toOverridesName(mock.name))
+
+  let content = ''
+  content += `/**\n`
+  content += ` * Resolvers replacing the example response of any operation\n`
+  content += ` */\n`
+  content += `export interface HandlerOverrides extends ${overrides.join(', ')} {}\n\n`
+  content += `/**\n`
+  content += ` * MSW request handlers for every operation of the API\n`
+  content += ` * @param overrides Resolvers replacing the example response of an operation\n`
+  content += ` * @param baseUrl Prefix of the handled paths, any origin by default\n`
+  content += ` * @returns The request handlers\n`
+  content += ` */\n`
+  content += `export function handlers(overrides: HandlerOverrides = {}, baseUrl = '*'): HttpHandler[] {\n`
+  content += `  return [\n`
+  for (const mock of mocks) {
+    content += `    ...${mock.name}(overrides, baseUrl),\n`
+  }
+  content += `  ];\n`
+  content += `}\n`
+
+  return content
+}
+
+/**
+ * Converts an OpenAPI path template to an MSW path pattern, e.g.
+ * `/pets/{petId}` to `/pets/:petId`
+ * @param path The path template
+ * @returns The path pattern
+ */
+function toPathPattern(path: string): string {
+  return path.replace(/{([^}]+)}/g, (_, name) => `:${toParamName(name)}`)
+}
+
+/**
+ * Generates the type argument declaring the path parameters of a handler
+ * @param path The path template
+ * @returns The type argument, empty when the path has no parameters
+ */
+function toParamsType(path: string): string {
+  const names = [...path.matchAll(/{([^}]+)}/g)].map((match) =>
+    toParamName(match[1]),
+  )
+  if (names.length === 0) {
+    return ''
+  }
+  return `<{ ${names.map((name) => `${name}: string`).join('; ')} }>`
+}
+
+/**
+ * Converts a path parameter name to a valid MSW parameter name
+ * @param name The path parameter name
+ * @returns The parameter name with non-word characters replaced
+ */
+function toParamName(name: string): string {
+  return name.replace(/\W/g, '_')
+}
+
+/**
+ * Generates the resolver returning the example response of an operation
+ * @param response The example response
+ * @param exampleRef The expression referencing the example body
+ * @returns The resolver expression
+ */
+function generateExampleResolver(
+  response: ExampleResponse,
+  exampleRef: string,
+): string {
+  if (response.body === undefined) {
+    return `(() => new HttpResponse(null, { status: ${response.status} }))`
+  }
+  if (isJsonResponse(response)) {
+    return `(() => HttpResponse.json(${exampleRef}, { status: ${response.status} }))`
+  }
+  return `(() => new HttpResponse(${exampleRef}, { status: ${response.status}, headers: { 'Content-Type': '${response.contentType}' } }))`
+}
+
+/**
+ * Derives the name of the overrides interface of a handlers function, e.g.
+ * petHandlers to PetHandlerOverrides
+ * @param handlersName The name of the handlers function
+ * @returns The interface name
+ */
+export function toOverridesName(handlersName: string): string {
+  return (
+    toPascalCase(handlersName.replace(/Handlers$/, '')) + 'HandlerOverrides'
+  )
+}
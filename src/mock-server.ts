@@ -0,0 +1,114 @@
+import * as http from 'http'
+import { ApiEndpoint, ParsedSpec } from './types'
+import {
+  buildExampleResponse,
+  ExampleResponse,
+  isJsonResponse,
+  toTextBody,
+} from './examples'
+
+/**
+ * An operation the mock server answers, with its compiled path pattern
+ */
+interface MockRoute {
+  method: string
+  pattern: RegExp
+  endpoint: ApiEndpoint
+  response: ExampleResponse
+}
+
+/**
+ * Creates an HTTP server answering every operation of a specification with
+ * the example responses the generated MSW handlers return. Paths are
+ * matched below the base path of the specification
+ * @param parsedSpec The parsed specification
+ * @returns The server, not yet listening
+ */
+export function createMockServer(parsedSpec: ParsedSpec): http.Server {
+  const basePath = getBasePath(parsedSpec)
+  const routes: MockRoute[] = []
+  for (const apiPath of Object.values(parsedSpec.paths)) {
+    for (const endpoint of apiPath.endpoints) {
+      routes.push({
+        method: endpoint.method.toUpperCase(),
+        pattern: toPathRegExp(basePath + endpoint.path),
+        endpoint,
+        response: buildExampleResponse(endpoint, parsedSpec.components.schemas),
+      })
+    }
+  }
+
+  return http.createServer((request, response) => {
+    const method = request.method || 'GET'
+    const pathname = new URL(request.url || '/', 'http://localhost').pathname
+
+    // Browsers preflight cross-origin requests from the frontend dev server
+    response.setHeader('Access-Control-Allow-Origin', '*')
+    response.setHeader('Access-Control-Allow-Headers', '*')
+    response.setHeader('Access-Control-Allow-Methods', '*')
+    if (
+      method === 'OPTIONS' &&
+      !routes.some((route) => route.method === 'OPTIONS')
+    ) {
+      response.writeHead(204).end()
+      return
+    }
+
+    const route = routes.find(
+      (candidate) =>
+        candidate.method === method && candidate.pattern.test(pathname),
+    )
+    if (!route) {
+      console.log(`${method} ${pathname} -> 404`)
+      response.writeHead(404, { 'Content-Type': 'application/json' })
+      response.end(
+        JSON.stringify({
+          message: `No operation matches ${method} ${pathname}`,
+        }),
+      )
+      return
+    }
+
+    const { status, contentType, body } = route.response
+    console.log(
+      `${method} ${pathname} -> ${route.endpoint.operationId} ${status}`,
+    )
+    if (body === undefined) {
+      response.writeHead(status).end()
+      return
+    }
+
+    response.writeHead(status, { 'Content-Type': contentType })
+    response.end(
+      isJsonResponse(route.response) ? JSON.stringify(body) : toTextBody(body),
+    )
+  })
+}
+
+/**
+ * Determines the path below which the operations are served: the Swagger
+ * 2.0 basePath or the path of the first server URL
+ * @param parsedSpec The parsed specification
+ * @returns The base path without a trailing slash
+ */
+function getBasePath(parsedSpec: ParsedSpec): string {
+  const serverUrl = parsedSpec.servers[0]?.url || ''
+  const basePath =
+    parsedSpec.basePath ||
+    // Server URLs may be relative and contain {variables}
+    new URL(serverUrl.replace(/[{}]/g, ''), 'http://localhost').pathname
+  return basePath.replace(/\/+$/, '')
+}
+
+/**
+ * Compiles a path template to a regular expression matching request paths
+ * @param path The path template, e.g. `/pets/{petId}`
+ * @returns The regular expression
+ */
+function toPathRegExp(path: string): RegExp {
+  const source = path
+    .split(/{[^}]+}/)
+    .map((segment) => segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]+')
+  return new RegExp(`^${source}/?$`)
+}
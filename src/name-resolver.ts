@@ -0,0 +1,494 @@
+import {
+  ApiEndpoint,
+  ApiSchema,
+  NamingStrategy,
+  OutputMode,
+  ParsedSpec,
+} from './types'
+import {
+  sanitizeTypeName,
+  toCamelCase,
+  toIdentifier,
+  toPascalCase,
+  toPropertyName,
+} from './naming'
+import { generateRuntimeContent } from './runtime'
+import { getMapValueSchemas, hasMapValues } from './map-types'
+
+/**
+ * Members every API class declares besides the operation methods
+ */
+const RESERVED_METHOD_NAMES = ['constructor', 'http']
+
+/**
+ * Globals the generated runtime and clients refer to, which a model of the
+ * same name would hide in the single-file output
+ */
+const RUNTIME_GLOBALS = [
+  'AbortSignal',
+  'Array',
+  'BigInt',
+  'Blob',
+  'BodyInit',
+  'Date',
+  'Error',
+  'Exclude',
+  'Extract',
+  'File',
+  'FormData',
+  'Headers',
+  'JSON',
+  'Math',
+  'Number',
+  'Object',
+  'Omit',
+  'Partial',
+  'Promise',
+  'Record',
+  'ReadableStream',
+  'RegExp',
+  'Request',
+  'RequestCredentials',
+  'RequestInit',
+  'Response',
+  'String',
+  'TextEncoder',
+  'Uint8Array',
+  'URL',
+  'URLSearchParams',
+]
+
+/**
+ * The names of a specification's generated types, methods and API classes
+ */
+export interface ResolvedNames {
+  /**
+   * A copy of the specification in which the component schemas, the
+   * references to them and the declared inline schemas carry their type
+   * names, the schemas with renamed properties carry their property names,
+   * and every operationId is the name of its method
+   */
+  spec: ParsedSpec
+  /** The API class name of every tag */
+  apiClassNames: Record<string, string>
+  /** The identifier of every tag, prefixing its mock handlers and hooks */
+  tagNames: Record<string, string>
+  /** The name collisions that were resolved, one message each */
+  warnings: string[]
+}
+
+/**
+ * The names taken in a scope
+ */
+interface NameScope {
+  /** The exact name and the entity holding it, by the key of the name */
+  names: Map<string, { name: string; owner: string }>
+  /** Keys the names, in lower case where names differing in case collide */
+  toKey: (name: string) => string
+}
+
+/**
+ * Names the types, properties, methods and API classes of a specification
+ * with the naming strategy. Entities whose names collide are disambiguated with a
+ * numeric suffix, in the order they appear in the specification, and
+ * reported as warnings. Inline schemas that are identical to the schema
+ * already holding their name share that type instead
+ * @param parsedSpec The parsed specification
+ * @param naming The naming callbacks; defaults apply where one is missing
+ * @param outputMode The output mode; the multi-file output also needs type
+ * names that differ in more than case, as it names a file after each
+ * @returns The renamed specification, the API class and tag names and the
+ * warnings
+ */
+export function resolveNames(
+  parsedSpec: ParsedSpec,
+  naming: NamingStrategy = {},
+  outputMode: OutputMode = 'single',
+): ResolvedNames {
+  const spec = structuredClone(parsedSpec)
+  const warnings: string[] = []
+  const toTypeName = (name: string) =>
+    toIdentifier(naming.type ? naming.type(name) : sanitizeTypeName(name))
+
+  // Types, API classes and error types share one scope: the single-file
+  // output declares them all next to the runtime
+  const ignoreCase = outputMode === 'multi'
+  const typeScope = createNameScope(ignoreCase)
+  for (const name of findRuntimeNames()) {
+    addName(typeScope, name, 'the generated runtime')
+  }
+  for (const name of RUNTIME_GLOBALS) {
+    addName(typeScope, name, `the global ${name}`)
+  }
+
+  // Component schemas, then the references to them
+  const componentNames: Record<string, string> = {}
+  const schemas: Record<string, ApiSchema> = {}
+  for (const [key, schema] of Object.entries(spec.components.schemas)) {
+    const name = claimName(
+      typeScope,
+      toTypeName(key),
+      `schema "${key}"`,
+      warnings,
+    )
+    componentNames[key] = name
+    schema.name = name
+    schemas[name] = schema
+  }
+  spec.components.schemas = schemas
+
+  const allSchemas = collectSchemas(spec)
+  for (const schema of allSchemas) {
+    if (schema.reference && componentNames[schema.reference]) {
+      schema.reference = componentNames[schema.reference]
+    }
+    if (schema.discriminator) {
+      const mapping = schema.discriminator.mapping
+      for (const [value, target] of Object.entries(mapping)) {
+        mapping[value] = componentNames[target] || target
+      }
+    }
+  }
+
+  // Inline schemas that are declared as types of their own
+  const fingerprints = new Map<string, string>()
+  for (const [name, schema] of Object.entries(schemas)) {
+    fingerprints.set(name, toFingerprint(schema))
+  }
+  const components = new Set(Object.values(schemas))
+  for (const schema of allSchemas) {
+    if (components.has(schema) || !declaresType(schema)) {
+      continue
+    }
+    // Derived names start with the operationId or the property they come
+    // from, so they are made PascalCase like the component names
+    const candidate = toTypeName(toPascalCase(schema.name))
+    const fingerprint = toFingerprint(schema)
+    if (fingerprints.get(candidate) === fingerprint) {
+      schema.name = candidate
+      continue
+    }
+    schema.name = claimName(
+      typeScope,
+      candidate,
+      `inline schema "${schema.name}"`,
+      warnings,
+    )
+    fingerprints.set(schema.name, fingerprint)
+  }
+
+  // Properties, unique within the schema declaring them
+  if (naming.property) {
+    for (const schema of allSchemas) {
+      renameProperties(schema, naming.property, warnings)
+    }
+    // Unions name their discriminator property like their members do
+    for (const schema of allSchemas) {
+      if (schema.discriminator) {
+        const { propertyName, mapping } = schema.discriminator
+        const member = Object.values(mapping)
+          .map((target) => schemas[target])
+          .find((target) => target && propertyName in target.properties)
+        const name = member
+          ? toPropertyName(member, propertyName)
+          : naming.property(propertyName) || propertyName
+        if (name !== propertyName) {
+          schema.propertyNames = {
+            ...schema.propertyNames,
+            [propertyName]: name,
+          }
+        }
+      }
+    }
+  }
+
+  // API classes and tag identifiers, one per tag
+  const apiClassNames: Record<string, string> = {}
+  const tagNames: Record<string, string> = {}
+  const tagScope = createNameScope(ignoreCase)
+  const endpoints = Object.values(spec.paths).flatMap(
+    (apiPath) => apiPath.endpoints,
+  )
+  for (const endpoint of endpoints) {
+    for (const tag of endpoint.tags.length > 0 ? endpoint.tags : ['default']) {
+      if (!apiClassNames[tag]) {
+        apiClassNames[tag] = claimName(
+          typeScope,
+          toIdentifier(
+            naming.apiClass ? naming.apiClass(tag) : toPascalCase(tag) + 'Api',
+          ),
+          `tag "${tag}"`,
+          warnings,
+        )
+        tagNames[tag] = claimName(
+          tagScope,
+          toIdentifier(toCamelCase(tag)),
+          `tag "${tag}"`,
+          warnings,
+        )
+      }
+    }
+  }
+
+  // Methods, unique across the API because the error types, hooks and mock
+  // handlers derived from them share the output
+  const methodScope = new Map<string, string>()
+  for (const name of RESERVED_METHOD_NAMES) {
+    methodScope.set(toPascalCase(name), 'every API class')
+  }
+  for (const endpoint of endpoints) {
+    endpoint.operationId = claimMethodName(
+      endpoint,
+      toIdentifier(
+        naming.method
+          ? naming.method(endpoint.operationId, endpoint)
+          : toCamelCase(endpoint.operationId),
+      ),
+      methodScope,
+      typeScope,
+      warnings,
+    )
+  }
+
+  return { spec, apiClassNames, tagNames, warnings }
+}
+
+/**
+ * Creates an empty name scope
+ * @param ignoreCase Whether names differing only in case collide
+ * @returns The scope
+ */
+function createNameScope(ignoreCase: boolean): NameScope {
+  return {
+    names: new Map(),
+    toKey: ignoreCase ? (name) => name.toLowerCase() : (name) => name,
+  }
+}
+
+/**
+ * Records a name as taken in a scope
+ * @param scope The scope
+ * @param name The name
+ * @param owner Describes the entity holding the name
+ */
+function addName(scope: NameScope, name: string, owner: string): void {
+  scope.names.set(scope.toKey(name), { name, owner })
+}
+
+/**
+ * Describes the use of a taken name by the entity holding it, naming the
+ * name it holds if that differs in case
+ * @param scope The scope
+ * @param name The taken name
+ * @returns The description, e.g. `schema "user-dto" already uses`
+ */
+function describeUse(scope: NameScope, name: string): string {
+  const holder = scope.names.get(scope.toKey(name))!
+  return holder.name === name
+    ? `${holder.owner} already uses`
+    : `${holder.owner} already uses as ${holder.name} (file names ignore case)`
+}
+
+/**
+ * Claims a name in a scope, appending the lowest free numeric suffix when
+ * another entity holds it
+ * @param scope The names taken so far
+ * @param candidate The preferred name
+ * @param owner Describes the entity, for the warning
+ * @param warnings The warnings to add to
+ * @returns The claimed name
+ */
+function claimName(
+  scope: NameScope,
+  candidate: string,
+  owner: string,
+  warnings: string[],
+): string {
+  let name = candidate
+  for (let suffix = 2; scope.names.has(scope.toKey(name)); suffix++) {
+    name = `${candidate}${suffix}`
+  }
+  if (name !== candidate) {
+    warnings.push(
+      `${owner} maps to ${candidate}, which ${describeUse(scope, candidate)}; generated as ${name}`,
+    )
+  }
+  addName(scope, name, owner)
+  return name
+}
+
+/**
+ * Names the properties of a schema with the property callback, recording
+ * the names that differ from the specification's. Properties whose names
+ * collide are disambiguated with a numeric suffix
+ * @param schema The schema declaring the properties
+ * @param toName The property naming callback
+ * @param warnings The warnings to add to
+ */
+function renameProperties(
+  schema: ApiSchema,
+  toName: (name: string) => string,
+  warnings: string[],
+): void {
+  const owners = new Map<string, string>()
+  const propertyNames: Record<string, string> = {}
+
+  for (const key of Object.keys(schema.properties)) {
+    const candidate = toName(key) || key
+    let name = candidate
+    for (let suffix = 2; owners.has(name); suffix++) {
+      name = `${candidate}${suffix}`
+    }
+    if (name !== candidate) {
+      warnings.push(
+        `property "${key}" of ${schema.name} maps to ${candidate}, which property "${owners.get(candidate)}" already uses; generated as ${name}`,
+      )
+    }
+    owners.set(name, key)
+    if (name !== key) {
+      propertyNames[key] = name
+    }
+  }
+
+  if (Object.keys(propertyNames).length > 0) {
+    schema.propertyNames = propertyNames
+  }
+}
+
+/**
+ * Claims the method name of an operation. Method names that differ only in
+ * the case of the first letter collide, as do methods whose error type
+ * collides with a type
+ * @param endpoint The API endpoint
+ * @param candidate The preferred method name
+ * @param methodScope The method names taken so far, in Pascal case
+ * @param typeScope The type names taken so far
+ * @param warnings The warnings to add to
+ * @returns The claimed method name
+ */
+function claimMethodName(
+  endpoint: ApiEndpoint,
+  candidate: string,
+  methodScope: Map<string, string>,
+  typeScope: NameScope,
+  warnings: string[],
+): string {
+  const owner = `operation "${endpoint.method.toUpperCase()} ${endpoint.path}"`
+  const isTaken = (name: string) =>
+    methodScope.has(toPascalCase(name)) ||
+    typeScope.names.has(typeScope.toKey(`${toPascalCase(name)}Error`))
+
+  let name = candidate
+  for (let suffix = 2; isTaken(name); suffix++) {
+    name = `${candidate}${suffix}`
+  }
+  if (name !== candidate) {
+    const pascal = toPascalCase(candidate)
+    const conflict = methodScope.has(pascal)
+      ? `which ${methodScope.get(pascal)} already uses`
+      : `whose error type ${pascal}Error ${describeUse(typeScope, `${pascal}Error`)}`
+    warnings.push(
+      `${owner} maps to method ${candidate}, ${conflict}; generated as ${name}`,
+    )
+  }
+  methodScope.set(toPascalCase(name), owner)
+  addName(typeScope, `${toPascalCase(name)}Error`, owner)
+  return name
+}
+
+/**
+ * Collects every schema of a specification once, components first, in the
+ * order they appear
+ * @param spec The parsed specification
+ * @returns The schemas
+ */
+function collectSchemas(spec: ParsedSpec): ApiSchema[] {
+  const schemas = new Set<ApiSchema>()
+
+  const visit = (schema: ApiSchema | null): void => {
+    if (!schema || schemas.has(schema)) return
+    schemas.add(schema)
+
+    for (const child of [
+      ...Object.values(schema.properties),
+      ...(schema.items ? [schema.items] : []),
+      ...(schema.allOf || []),
+      ...(schema.oneOf || []),
+      ...(schema.anyOf || []),
+      ...getMapValueSchemas(schema),
+    ]) {
+      visit(child)
+    }
+  }
+
+  for (const schema of Object.values(spec.components.schemas)) {
+    visit(schema)
+  }
+  for (const apiPath of Object.values(spec.paths)) {
+    for (const endpoint of apiPath.endpoints) {
+      for (const param of endpoint.parameters) {
+        visit(param.schema)
+      }
+      visit(endpoint.requestBody?.schema || null)
+      for (const media of Object.values(endpoint.requestBody?.content || {})) {
+        visit(media.schema)
+      }
+      for (const response of Object.values(endpoint.responses)) {
+        visit(response.schema)
+        for (const media of Object.values(response.content)) {
+          visit(media.schema)
+        }
+      }
+    }
+  }
+
+  return [...schemas]
+}
+
+/**
+ * Checks whether the generator declares a named type for a schema, as it
+ * does for enums, objects, maps, arrays and compositions
+ * @param schema The schema
+ * @returns True if the schema gets a type of its own
+ */
+function declaresType(schema: ApiSchema): boolean {
+  if (schema.reference) {
+    return false
+  }
+  return (
+    (schema.enum !== undefined && schema.enum.length > 0) ||
+    schema.type === 'object' ||
+    Object.keys(schema.properties).length > 0 ||
+    hasMapValues(schema) ||
+    (schema.type === 'array' && schema.items !== null) ||
+    (schema.allOf !== null && schema.allOf.length > 0) ||
+    (schema.oneOf !== null && schema.oneOf.length > 0) ||
+    (schema.anyOf !== null && schema.anyOf.length > 0)
+  )
+}
+
+/**
+ * Serializes the structure of a schema without the names the parser
+ * derived from where it is declared
+ * @param schema The schema
+ * @returns The fingerprint
+ */
+function toFingerprint(schema: ApiSchema): string {
+  return JSON.stringify(schema, (key, value) =>
+    key === 'name' && typeof value === 'string' ? undefined : value,
+  )
+}
+
+/**
+ * Finds the names the generated runtime and client declare
+ * @returns The declared names
+ */
+function findRuntimeNames(): string[] {
+  const runtime = generateRuntimeContent().join('\n')
+  const names = [
+    ...runtime.matchAll(
+      /^export (?:type|interface|class|const|function|async function) (\w+)/gm,
+    ),
+  ].map((match) => match[1])
+  return [...names, 'ApiClient', 'AuthConfig']
+}
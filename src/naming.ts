@@ -0,0 +1,126 @@
+import { ApiSchema } from './types'
+
+/**
+ * Converts a string to Pascal case
+ * @param str The input string
+ * @returns The Pascal case string
+ */
+export function toPascalCase(str: string): string {
+  // Handle strings that already have mixed casing
+  // Check if the string already contains uppercase letters
+  const containsUppercase = /[A-Z]/.test(str)
+
+  if (containsUppercase) {
+    // Split string by delimiters but preserve existing case within words
+    return str
+      .split(/[-_\s]/)
+      .map((word) => {
+        // If the word is already in PascalCase or UPPERCASE, keep it as is
+        if (/^[A-Z]/.test(word)) {
+          return word
+        }
+        return word.charAt(0).toUpperCase() + word.slice(1)
+      })
+      .join('')
+  }
+
+  // Standard pascal case conversion for lowercase strings
+  return str
+    .split(/[-_\s]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('')
+}
+
+/**
+ * Converts a string to camel case
+ * @param str The input string
+ * @returns The camel case string
+ */
+export function toCamelCase(str: string): string {
+  const pascal = toPascalCase(str)
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1)
+}
+
+/**
+ * Returns the TypeScript name of a property of a schema
+ * @param schema The object schema declaring the property
+ * @param name The property name in the specification
+ * @returns The property name in the generated types
+ */
+export function toPropertyName(
+  schema: Pick<ApiSchema, 'propertyNames'>,
+  name: string,
+): string {
+  return schema.propertyNames?.[name] ?? name
+}
+
+/**
+ * Creates unique, valid member names for enum values, preferring the
+ * names given by the specification (x-enum-varnames / x-enumNames)
+ * @param values The enum values
+ * @param names The member names from the specification, if any
+ * @returns One member name per value
+ */
+export function toEnumKeys(values: any[], names: string[] = []): string[] {
+  const keys: string[] = []
+
+  values.forEach((value, index) => {
+    const source =
+      typeof names[index] === 'string' && names[index] !== ''
+        ? names[index]
+        : String(value)
+    let key = source
+      .replace(/^-(?=\d)/, 'Minus')
+      .replace(/[^a-zA-Z0-9_$]/g, '_')
+    if (key === '') {
+      key = 'Empty'
+    } else if (/^[0-9]/.test(key)) {
+      key = `_${key}`
+    }
+
+    // Values like "a-b" and "a_b" map to the same key
+    let uniqueKey = key
+    for (let suffix = 2; keys.includes(uniqueKey); suffix++) {
+      uniqueKey = `${key}_${suffix}`
+    }
+    keys.push(uniqueKey)
+  })
+
+  return keys
+}
+
+/**
+ * Sanitizes a name to use as a TypeScript type name
+ * @param name The name to sanitize
+ * @returns The sanitized name
+ */
+export function sanitizeTypeName(name: string): string {
+  // Special case handling to prevent case distortion
+  // For names that contain uppercase letters and "DTO" suffix, preserve the exact case
+  if (/DTO$/.test(name) || /[A-Z][a-z]+[A-Z]/.test(name)) {
+    return name.replace(/[^\w]/g, '')
+  }
+
+  // If the name already follows PascalCase convention with uppercase letters, preserve it
+  if (/^[A-Z]/.test(name)) {
+    return name.replace(/[^\w]/g, '')
+  }
+
+  // Otherwise apply standard PascalCase conversion
+  let sanitized = name.replace(/[^\w\s]/g, '')
+  return toPascalCase(sanitized)
+}
+
+/**
+ * Turns a name into a valid identifier, dropping the characters an
+ * identifier cannot contain
+ * @param name The name, e.g. from a naming callback
+ * @returns The identifier
+ */
+export function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^\w$]/g, '')
+  if (identifier === '') {
+    return '_'
+  }
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier
+}
@@ -5,8 +5,15 @@ import {
   ApiPath,
   ApiParameter,
   ApiSchema,
+  ApiDiscriminator,
+  ApiEncoding,
+  ApiMediaType,
+  ApiRequestBody,
   ApiResponse,
+  ApiSecurityScheme,
+  ApiSecurityRequirement,
 } from './types'
+import { selectMediaType } from './media-types'
 
 /**
  * Parses the Swagger/OpenAPI specification into a more workable format
@@ -29,12 +36,28 @@ export function parseSwaggerSpec(spec: OpenAPISpec): ParsedSpec {
     paths: {},
     components: {
       schemas: {},
+      securitySchemes: {},
     },
+    security: spec.security || [],
   }
 
   // Parse paths
   for (const [path, pathItem] of Object.entries(spec.paths || {})) {
-    parsedSpec.paths[path] = parsePath(path, pathItem as any)
+    parsedSpec.paths[path] = parsePath(path, pathItem as any, {
+      security: parsedSpec.security,
+      consumes: spec.consumes || [],
+      produces: spec.produces || [],
+    })
+  }
+
+  // Parse security schemes (Swagger 2.0 calls them security definitions)
+  const securitySchemes =
+    spec.components?.securitySchemes || spec.securityDefinitions || {}
+  for (const [name, scheme] of Object.entries(securitySchemes)) {
+    const securityScheme = parseSecurityScheme(scheme, name)
+    if (securityScheme) {
+      parsedSpec.components.securitySchemes[name] = securityScheme
+    }
   }
 
   // Parse definitions/components
@@ -54,20 +77,37 @@ export function parseSwaggerSpec(spec: OpenAPISpec): ParsedSpec {
   return parsedSpec
 }
 
+/**
+ * Defaults that apply to every operation of the specification
+ */
+interface OperationDefaults {
+  /** The security requirements that apply unless an operation overrides them */
+  security: ApiSecurityRequirement[]
+  /** The Swagger 2.0 media types operations consume */
+  consumes: string[]
+  /** The Swagger 2.0 media types operations produce */
+  produces: string[]
+}
+
 /**
  * Parses a path item from the Swagger/OpenAPI spec
  * @param path The path string
  * @param pathItem The path item from the spec
+ * @param defaults The defaults that apply to every operation
  * @returns A parsed path object
  */
-function parsePath(path: string, pathItem: any): ApiPath {
+function parsePath(
+  path: string,
+  pathItem: any,
+  defaults: OperationDefaults,
+): ApiPath {
   const apiPath: ApiPath = { endpoints: [] }
 
   const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head']
 
   for (const method of methods) {
     if (pathItem[method]) {
-      const endpoint = parseEndpoint(path, method, pathItem[method])
+      const endpoint = parseEndpoint(path, method, pathItem[method], defaults)
       apiPath.endpoints.push(endpoint)
     }
   }
@@ -80,12 +120,14 @@ function parsePath(path: string, pathItem: any): ApiPath {
  * @param path The path string
  * @param method The HTTP method
  * @param operation The operation object from the spec
+ * @param defaults The defaults that apply to every operation
  * @returns A parsed endpoint object
  */
 function parseEndpoint(
   path: string,
   method: string,
   operation: any,
+  defaults: OperationDefaults,
 ): ApiEndpoint {
   const endpoint: ApiEndpoint = {
     path,
@@ -98,30 +140,49 @@ function parseEndpoint(
     requestBody: null,
     responses: {},
     tags: operation.tags || [],
+    // An empty operation-level list explicitly disables security
+    security: operation.security || defaults.security,
+    deprecated: operation.deprecated === true,
   }
+  const consumes: string[] = operation.consumes || defaults.consumes
+  const produces: string[] = operation.produces || defaults.produces
 
-  // Parse parameters
+  // Parse parameters; Swagger 2.0 body and form parameters make up the
+  // request body
   if (operation.parameters) {
-    endpoint.parameters = operation.parameters.map((param: any) =>
-      parseParameter(param),
+    endpoint.parameters = operation.parameters
+      .filter((param: any) => param.in !== 'formData' && param.in !== 'body')
+      .map((param: any) => parseParameter(param))
+
+    const bodyParam = operation.parameters.find(
+      (param: any) => param.in === 'body',
     )
+    const formParams = operation.parameters.filter(
+      (param: any) => param.in === 'formData',
+    )
+    if (bodyParam?.schema) {
+      endpoint.requestBody = parseRequestBody(
+        {
+          required: bodyParam.required,
+          content: toSwagger2Content(consumes, bodyParam.schema),
+        },
+        `${endpoint.operationId}Request`,
+      )
+    } else if (formParams.length > 0) {
+      endpoint.requestBody = parseFormParameters(
+        formParams,
+        consumes,
+        `${endpoint.operationId}Request`,
+      )
+    }
   }
 
   // Parse request body (OpenAPI 3.0)
   if (operation.requestBody) {
-    const contentType =
-      operation.requestBody.content &&
-      Object.keys(operation.requestBody.content)[0]
-    if (contentType) {
-      const content = operation.requestBody.content[contentType]
-      if (content.schema) {
-        endpoint.requestBody = {
-          required: operation.requestBody.required || false,
-          contentType,
-          schema: parseSchema(content.schema, `${endpoint.operationId}Request`),
-        }
-      }
-    }
+    endpoint.requestBody = parseRequestBody(
+      operation.requestBody,
+      `${endpoint.operationId}Request`,
+    )
   }
 
   // Parse responses
@@ -132,27 +193,18 @@ function parseEndpoint(
       // TypeScript needs explicit type casting here
       const response = rawResponse as any
 
+      // Swagger 2.0 responses declare one schema for all produced media types
+      const content = parseContent(
+        response.content ||
+          toSwagger2Content(produces, response.schema, response.examples),
+        `${endpoint.operationId}Response${statusCode}`,
+      )
+      const contentType = selectMediaType(Object.keys(content))
+
       const apiResponse: ApiResponse = {
         description: response.description || '',
-        schema: null,
-      }
-
-      // OpenAPI 3.0 response schema
-      if (response.content) {
-        const contentType = Object.keys(response.content)[0]
-        if (contentType && response.content[contentType].schema) {
-          apiResponse.schema = parseSchema(
-            response.content[contentType].schema,
-            `${endpoint.operationId}Response${statusCode}`,
-          )
-        }
-      }
-      // Swagger 2.0 response schema
-      else if (response.schema) {
-        apiResponse.schema = parseSchema(
-          response.schema,
-          `${endpoint.operationId}Response${statusCode}`,
-        )
+        schema: contentType ? content[contentType].schema : null,
+        content,
       }
 
       endpoint.responses[statusCode] = apiResponse
@@ -162,6 +214,208 @@ function parseEndpoint(
   return endpoint
 }
 
+/**
+ * Parses a request body, selecting the preferred media type to send it in
+ * @param requestBody The request body object from the spec
+ * @param name A name to use for the body schema
+ * @returns The parsed request body, or null if it declares no media type
+ */
+function parseRequestBody(
+  requestBody: any,
+  name: string,
+): ApiRequestBody | null {
+  const content = parseContent(requestBody.content || {}, name)
+  const contentType = selectMediaType(Object.keys(content))
+  if (!contentType) {
+    return null
+  }
+
+  return {
+    required: requestBody.required || false,
+    contentType,
+    schema: content[contentType].schema,
+    encoding: content[contentType].encoding,
+    content,
+  }
+}
+
+/**
+ * Parses the media types of a request or response body. The schema of the
+ * preferred media type gets the plain name, the others a suffix derived
+ * from their media type
+ * @param content The content object from the spec
+ * @param name A name to use for the schemas
+ * @returns The parsed media types
+ */
+function parseContent(
+  content: Record<string, any>,
+  name: string,
+): Record<string, ApiMediaType> {
+  const preferred = selectMediaType(Object.keys(content))
+  const parsed: Record<string, ApiMediaType> = {}
+  for (const [mediaType, media] of Object.entries(content)) {
+    const schemaName =
+      mediaType === preferred ? name : `${name}${toMediaTypeSuffix(mediaType)}`
+    parsed[mediaType] = {
+      schema: media?.schema ? parseSchema(media.schema, schemaName) : null,
+      encoding: parseEncoding(media?.encoding || {}),
+      example: getMediaExample(media),
+    }
+  }
+  return parsed
+}
+
+/**
+ * Reads the example of a media type: `example`, or the value of the first
+ * entry of `examples`
+ * @param media The media type object from the spec
+ * @returns The example, or undefined if there is none
+ */
+function getMediaExample(media: any): unknown {
+  if (media?.example !== undefined) {
+    return media.example
+  }
+  const examples = Object.values(media?.examples || {}) as any[]
+  return examples[0]?.value
+}
+
+/**
+ * Builds the OpenAPI 3.0 content of a Swagger 2.0 body: its schema applies
+ * to every declared media type, JSON unless the operation declares any
+ * @param mediaTypes The media types the operation consumes or produces
+ * @param schema The body schema, if any
+ * @param examples Swagger 2.0 response examples, by media type
+ * @returns The content object
+ */
+function toSwagger2Content(
+  mediaTypes: string[],
+  schema: any,
+  examples: Record<string, any> = {},
+): Record<string, any> {
+  if (!schema) {
+    return {}
+  }
+
+  const content: Record<string, any> = {}
+  for (const mediaType of mediaTypes.length > 0
+    ? mediaTypes
+    : ['application/json']) {
+    content[mediaType] = { schema, example: examples[mediaType] }
+  }
+  return content
+}
+
+/**
+ * Converts a media type to a schema name suffix, e.g. application/xml to Xml
+ * @param mediaType The media type
+ * @returns The suffix
+ */
+function toMediaTypeSuffix(mediaType: string): string {
+  const subtype = mediaType.split(';')[0].split('/').pop() || ''
+  return subtype
+    .split(/[^a-zA-Z0-9]+/)
+    .map(capitalizeFirstLetter)
+    .join('')
+}
+
+/**
+ * Parses the per-property encoding of a form request body, filling in the
+ * defaults of the OpenAPI specification
+ * @param encoding The encoding object from the spec
+ * @returns The parsed encoding, by property name
+ */
+function parseEncoding(
+  encoding: Record<string, any>,
+): Record<string, ApiEncoding> {
+  const parsed: Record<string, ApiEncoding> = {}
+  for (const [name, propertyEncoding] of Object.entries(encoding)) {
+    const style = propertyEncoding.style || 'form'
+    parsed[name] = {
+      contentType: propertyEncoding.contentType || '',
+      style,
+      explode: propertyEncoding.explode ?? style === 'form',
+    }
+  }
+  return parsed
+}
+
+/**
+ * Builds the request body of a Swagger 2.0 operation from its formData
+ * parameters: multipart when uploading files, urlencoded otherwise
+ * @param params The formData parameters
+ * @param consumes The media types the operation consumes
+ * @param name A name to use for the body schema
+ * @returns The parsed request body
+ */
+function parseFormParameters(
+  params: any[],
+  consumes: string[],
+  name: string,
+): ApiRequestBody {
+  const properties: Record<string, any> = {}
+  const encoding: Record<string, ApiEncoding> = {}
+  for (const param of params) {
+    properties[param.name] =
+      param.type === 'file'
+        ? { type: 'string', format: 'binary' }
+        : {
+            type: param.type,
+            format: param.format,
+            enum: param.enum,
+            items: param.items,
+          }
+    if (param.type === 'array') {
+      encoding[param.name] = toCollectionEncoding(param.collectionFormat)
+    }
+  }
+
+  const multipart =
+    consumes.includes('multipart/form-data') ||
+    params.some((param) => param.type === 'file')
+
+  const contentType = multipart
+    ? 'multipart/form-data'
+    : 'application/x-www-form-urlencoded'
+  const schema = parseSchema(
+    {
+      type: 'object',
+      properties,
+      required: params
+        .filter((param) => param.required)
+        .map((param) => param.name),
+    },
+    name,
+  )
+
+  return {
+    required: params.some((param) => param.required),
+    contentType,
+    schema,
+    encoding,
+    content: { [contentType]: { schema, encoding } },
+  }
+}
+
+/**
+ * Converts a Swagger 2.0 collection format to the equivalent encoding
+ * @param collectionFormat The collection format of an array parameter
+ * @returns The encoding
+ */
+function toCollectionEncoding(
+  collectionFormat: string | undefined,
+): ApiEncoding {
+  switch (collectionFormat) {
+    case 'multi':
+      return { contentType: '', style: 'form', explode: true }
+    case 'ssv':
+      return { contentType: '', style: 'spaceDelimited', explode: false }
+    case 'pipes':
+      return { contentType: '', style: 'pipeDelimited', explode: false }
+    default:
+      return { contentType: '', style: 'form', explode: false }
+  }
+}
+
 /**
  * Parses a parameter from the Swagger/OpenAPI spec
  * @param param The parameter object from the spec
@@ -173,10 +427,51 @@ function parseParameter(param: any): ApiParameter {
     in: param.in,
     required: param.required || false,
     description: param.description || '',
+    deprecated: param.deprecated === true,
     schema: param.schema ? parseSchema(param.schema, param.name) : null,
   }
 }
 
+/**
+ * Parses a security scheme from the Swagger/OpenAPI spec
+ * @param scheme The security scheme object from the spec
+ * @param name The name of the security scheme
+ * @returns A parsed security scheme, or null if the type is not supported
+ */
+function parseSecurityScheme(
+  scheme: any,
+  name: string,
+): ApiSecurityScheme | null {
+  const securityScheme: ApiSecurityScheme = {
+    name,
+    type: scheme.type,
+    scheme: '',
+    in: '',
+    parameterName: '',
+    description: scheme.description || '',
+  }
+
+  switch (scheme.type) {
+    case 'http':
+      securityScheme.scheme = (scheme.scheme || 'bearer').toLowerCase()
+      return securityScheme
+    // Swagger 2.0 basic authentication
+    case 'basic':
+      securityScheme.type = 'http'
+      securityScheme.scheme = 'basic'
+      return securityScheme
+    case 'apiKey':
+      securityScheme.in = scheme.in
+      securityScheme.parameterName = scheme.name
+      return securityScheme
+    case 'oauth2':
+    case 'openIdConnect':
+      return securityScheme
+    default:
+      return null
+  }
+}
+
 /**
  * Parses a schema from the Swagger/OpenAPI spec
  * @param schema The schema object from the spec
@@ -186,22 +481,39 @@ function parseParameter(param: any): ApiParameter {
 function parseSchema(schema: any, name: string): ApiSchema {
   const apiSchema: ApiSchema = {
     name,
-    type: schema.type || (schema.enum ? 'enum' : 'object'),
+    type: schema.type || getImplicitType(schema),
     format: schema.format,
     enum: schema.enum,
+    enumNames: schema['x-enum-varnames'] || schema['x-enumNames'],
+    enumDescriptions:
+      schema['x-enum-descriptions'] || schema['x-enumDescriptions'],
+    description: schema.description,
+    deprecated: schema.deprecated,
+    readOnly: schema.readOnly,
+    example: schema.example,
+    default: schema.default,
+    ...parseBounds(schema),
+    minLength: schema.minLength,
+    maxLength: schema.maxLength,
+    minItems: schema.minItems,
+    maxItems: schema.maxItems,
+    pattern: schema.pattern,
     nullable: schema.nullable || false,
     properties: {},
+    additionalProperties: null,
+    patternProperties: {},
     required: schema.required || [],
     items: null,
     allOf: null,
     oneOf: null,
     anyOf: null,
     reference: null,
+    discriminator: null,
   }
 
   // Handle reference ($ref)
   if (schema.$ref) {
-    apiSchema.reference = schema.$ref.split('/').pop()
+    apiSchema.reference = getReferenceName(schema.$ref)
     return apiSchema
   }
 
@@ -215,6 +527,29 @@ function parseSchema(schema: any, name: string): ApiSchema {
     }
   }
 
+  // Handle map values; an empty schema allows any value
+  if (
+    typeof schema.additionalProperties === 'boolean' ||
+    isEmptySchema(schema.additionalProperties)
+  ) {
+    apiSchema.additionalProperties = schema.additionalProperties !== false
+  } else if (schema.additionalProperties) {
+    apiSchema.additionalProperties = parseSchema(
+      schema.additionalProperties,
+      `${name}Value`,
+    )
+  }
+  if (schema.patternProperties) {
+    Object.entries(schema.patternProperties).forEach(
+      ([pattern, valueSchema], index) => {
+        apiSchema.patternProperties[pattern] = parseSchema(
+          valueSchema as any,
+          `${name}Pattern${index}`,
+        )
+      },
+    )
+  }
+
   // Handle array items
   if (schema.type === 'array' && schema.items) {
     apiSchema.items = parseSchema(schema.items, `${name}Item`)
@@ -241,9 +576,130 @@ function parseSchema(schema: any, name: string): ApiSchema {
     )
   }
 
+  // Handle discriminator of polymorphic schemas
+  if (schema.discriminator) {
+    apiSchema.discriminator = parseDiscriminator(
+      schema.discriminator,
+      apiSchema.oneOf || apiSchema.anyOf || [],
+    )
+  }
+
   return apiSchema
 }
 
+/**
+ * The numeric bounds of a schema
+ */
+type SchemaBounds = Pick<
+  ApiSchema,
+  'minimum' | 'maximum' | 'exclusiveMinimum' | 'exclusiveMaximum'
+>
+
+/**
+ * Parses the numeric bounds of a schema. OpenAPI 3.0 flags exclusive bounds
+ * with booleans, OpenAPI 3.1 gives them as numbers instead
+ * @param schema The schema object from the spec
+ * @returns The bounds, with exclusive ones flagged
+ */
+function parseBounds(schema: any): SchemaBounds {
+  const bounds: SchemaBounds = {
+    minimum: schema.minimum,
+    maximum: schema.maximum,
+  }
+
+  if (typeof schema.exclusiveMinimum === 'number') {
+    bounds.minimum = schema.exclusiveMinimum
+    bounds.exclusiveMinimum = true
+  } else if (schema.exclusiveMinimum && schema.minimum !== undefined) {
+    bounds.exclusiveMinimum = true
+  }
+  if (typeof schema.exclusiveMaximum === 'number') {
+    bounds.maximum = schema.exclusiveMaximum
+    bounds.exclusiveMaximum = true
+  } else if (schema.exclusiveMaximum && schema.maximum !== undefined) {
+    bounds.exclusiveMaximum = true
+  }
+
+  return bounds
+}
+
+/**
+ * Determines the type of a schema without an explicit type
+ * @param schema The schema object from the spec
+ * @returns The implied type, empty for compositions
+ */
+function getImplicitType(schema: any): string {
+  if (schema.enum) return 'enum'
+  if (!schema.properties && (schema.allOf || schema.oneOf || schema.anyOf)) {
+    return ''
+  }
+  return 'object'
+}
+
+/**
+ * Checks whether a schema is empty and thus allows any value
+ * @param schema The schema object from the spec
+ * @returns True for `{}`
+ */
+function isEmptySchema(schema: any): boolean {
+  return (
+    typeof schema === 'object' &&
+    schema !== null &&
+    !Array.isArray(schema) &&
+    Object.keys(schema).length === 0
+  )
+}
+
+/**
+ * Parses a discriminator, completing its mapping with the implicit values:
+ * members not targeted by the mapping are selected by their schema name
+ * @param discriminator The discriminator object (or Swagger 2 property name)
+ * @param members The parsed oneOf/anyOf members
+ * @returns The parsed discriminator
+ */
+function parseDiscriminator(
+  discriminator: any,
+  members: ApiSchema[],
+): ApiDiscriminator {
+  const propertyName =
+    typeof discriminator === 'string'
+      ? discriminator
+      : discriminator.propertyName
+  const mapping: Record<string, string> = {}
+
+  for (const [value, target] of Object.entries(
+    (discriminator.mapping || {}) as Record<string, string>,
+  )) {
+    // Targets are either $refs or bare schema names
+    mapping[value] = target.includes('/') ? getReferenceName(target) : target
+  }
+
+  const mappedSchemas = Object.values(mapping)
+  for (const member of members) {
+    if (member.reference && !mappedSchemas.includes(member.reference)) {
+      mapping[member.reference] = member.reference
+    }
+  }
+
+  return { propertyName, mapping }
+}
+
+/**
+ * Extracts the schema name from a local $ref
+ * @param ref The $ref value, e.g. '#/components/schemas/Pet'
+ * @returns The referenced schema name
+ */
+function getReferenceName(ref: string): string {
+  if (!ref.startsWith('#')) {
+    throw new Error(
+      `Unresolved external $ref "${ref}", bundle the specification before parsing it`,
+    )
+  }
+
+  const token = ref.split('/').pop() || ''
+  return decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
 /**
  * Capitalizes the first letter of a string
  * @param str The input string
@@ -0,0 +1,343 @@
+import { ApiEndpoint, TypeDefinition } from './types'
+import { toPascalCase } from './naming'
+import { escapeJsDoc } from './jsdoc'
+
+/**
+ * A parameter of a generated API method
+ */
+export interface MethodParameter {
+  name: string
+  /** Where the parameter is sent: path, query, body or header */
+  in: string
+  type: string
+  optional: boolean
+  description: string
+}
+
+/**
+ * An operation wrapped in a hook, with the signature of its API method
+ */
+export interface QueryOperation {
+  endpoint: ApiEndpoint
+  parameters: MethodParameter[]
+  /** The type the method resolves to without an explicit `accept` */
+  responseType: string
+  errorType: string
+}
+
+/**
+ * Values the hooks import from react and @tanstack/react-query
+ */
+const QUERY_VALUE_IMPORTS: Record<string, string[]> = {
+  react: ['createContext', 'useContext'],
+  '@tanstack/react-query': ['useMutation', 'useQuery'],
+}
+
+/**
+ * Types the hooks import from @tanstack/react-query
+ */
+const QUERY_TYPE_IMPORTS = [
+  'UseMutationOptions',
+  'UseMutationResult',
+  'UseQueryOptions',
+  'UseQueryResult',
+]
+
+/**
+ * Methods wrapped in a mutation hook; GET is wrapped in a query hook and
+ * HEAD/OPTIONS in neither
+ */
+const MUTATION_METHODS = ['post', 'put', 'patch', 'delete']
+
+/**
+ * Generates the query keys and hooks of the operations of one tag: a
+ * `use<Operation>Query` hook per GET operation and a `use<Operation>Mutation`
+ * hook per POST/PUT/PATCH/DELETE operation
+ * @param tag The tag grouping the operations
+ * @param tagName The identifier of the tag, prefixing the generated names
+ * @param apiClassName The name of the API class of the tag
+ * @param operations The operations of the tag
+ * @returns The definition of the `<tag>Queries` hooks
+ */
+export function generateQueryHooks(
+  tag: string,
+  tagName: string,
+  apiClassName: string,
+  operations: QueryOperation[],
+): TypeDefinition {
+  const keysName = tagName + 'Keys'
+  const apiName = apiClassName.charAt(0).toLowerCase() + apiClassName.slice(1)
+  const queries = operations.filter(({ endpoint }) => endpoint.method === 'get')
+  const mutations = operations.filter(({ endpoint }) =>
+    MUTATION_METHODS.includes(endpoint.method),
+  )
+
+  let content = ''
+  content += `/**\n`
+  content += ` * Query keys of the ${tag} operations. Keys start with the tag followed by\n`
+  content += ` * the path segments, so invalidating \`${keysName}.all\` refetches every query of\n`
+  content += ` * the tag and a shorter key every query of a resource\n`
+  content += ` */\n`
+  content += `export const ${keysName} = {\n`
+  content += `  all: ['${tag}'] as const,\n`
+  for (const operation of queries) {
+    const keyParameters = operation.parameters.filter(
+      (parameter) => parameter.in === 'path' || parameter.in === 'query',
+    )
+    const declarations = keyParameters.map(toParameterDeclaration).join(', ')
+    const segments = [
+      `'${tag}'`,
+      ...toKeySegments(operation.endpoint.path, keyParameters),
+      ...keyParameters
+        .filter((parameter) => parameter.in === 'query')
+        .map(toKeyPart),
+    ]
+    content += `  ${operation.endpoint.operationId}: (${declarations}) => [${segments.join(', ')}] as const,\n`
+  }
+  content += `};\n`
+
+  for (const operation of queries) {
+    content += '\n' + generateQueryHook(operation, keysName, apiName)
+  }
+  for (const operation of mutations) {
+    content += '\n' + generateMutationHook(operation, apiName)
+  }
+
+  return {
+    name: tagName + 'Queries',
+    content,
+    dependencies: [],
+  }
+}
+
+/**
+ * Generates the React context providing the ApiClient to the hooks
+ * @returns The context content
+ */
+export function generateQueryContext(): string {
+  let content = ''
+  content += `/**\n`
+  content += ` * Provides the ApiClient the generated hooks send their requests with\n`
+  content += ` */\n`
+  content += `export const ApiClientContext = createContext<ApiClient | null>(null);\n\n`
+  content += `/**\n`
+  content += ` * Returns the ApiClient of the nearest ApiClientContext provider\n`
+  content += ` * @returns The API client\n`
+  content += ` */\n`
+  content += `export function useApiClient(): ApiClient {\n`
+  content += `  const client = useContext(ApiClientContext);\n`
+  content += `  if (!client) {\n`
+  content += `    throw new Error('useApiClient must be used within an ApiClientContext provider');\n`
+  content += `  }\n`
+  content += `  return client;\n`
+  content += `}\n\n`
+  content += `/**\n`
+  content += ` * Converts a query key parameter to a value TanStack Query can hash: bigint\n`
+  content += ` * values to strings and dates to ISO 8601 strings, also within objects\n`
+  content += ` * @param value The parameter value\n`
+  content += ` * @returns The key part\n`
+  content += ` */\n`
+  content += `export function toQueryKeyPart(value: unknown): unknown {\n`
+  content += `  if (typeof value === 'bigint') return String(value);\n`
+  content += `  if (value instanceof Date) return value.toISOString();\n`
+  content += `  if (Array.isArray(value)) return value.map(toQueryKeyPart);\n`
+  content += `  if (value && typeof value === 'object') {\n`
+  content += `    return Object.fromEntries(\n`
+  content += `      Object.entries(value).map(([key, member]) => [key, toQueryKeyPart(member)]),\n`
+  content += `    );\n`
+  content += `  }\n`
+  content += `  return value;\n`
+  content += `}\n`
+  return content
+}
+
+/**
+ * Generates the import of the context helpers a tag's hooks use
+ * @param content The generated hooks content
+ * @returns The import lines
+ */
+export function generateContextImports(content: string): string[] {
+  const names = ['toQueryKeyPart', 'useApiClient'].filter((name) =>
+    new RegExp(`\\b${name}\\b`).test(content),
+  )
+  return names.length > 0
+    ? [`import { ${names.join(', ')} } from './context'`]
+    : []
+}
+
+/**
+ * Generates the imports of react and @tanstack/react-query used by
+ * generated hooks
+ * @param content The generated hooks content
+ * @returns The import lines
+ */
+export function generateQueryImports(content: string): string[] {
+  const isUsed = (name: string) => new RegExp(`\\b${name}\\b`).test(content)
+
+  const imports: string[] = []
+  for (const [library, names] of Object.entries(QUERY_VALUE_IMPORTS)) {
+    const values = names.filter(isUsed)
+    if (values.length > 0) {
+      imports.push(`import { ${values.join(', ')} } from '${library}'`)
+    }
+  }
+  const types = QUERY_TYPE_IMPORTS.filter(isUsed)
+  if (types.length > 0) {
+    imports.push(
+      `import type { ${types.join(', ')} } from '@tanstack/react-query'`,
+    )
+  }
+  return imports
+}
+
+/**
+ * Generates the query hook of a GET operation
+ * @param operation The operation
+ * @param keysName The name of the query key factory of the tag
+ * @param apiName The ApiClient property holding the API class
+ * @returns The hook content
+ */
+function generateQueryHook(
+  operation: QueryOperation,
+  keysName: string,
+  apiName: string,
+): string {
+  const { endpoint, parameters, responseType, errorType } = operation
+  const methodName = endpoint.operationId
+  const keyArguments = parameters
+    .filter((parameter) => parameter.in === 'path' || parameter.in === 'query')
+    .map((parameter) => parameter.name)
+  const methodArguments = [
+    ...parameters.map((parameter) => parameter.name),
+    '{ signal }',
+  ]
+  const optionsType = `Omit<UseQueryOptions<${responseType}, ${errorType}>, 'queryKey' | 'queryFn'>`
+  const declarations = [
+    ...parameters.map(toParameterDeclaration),
+    `options?: ${optionsType}`,
+  ]
+
+  let content = generateHookJsDoc(operation)
+  content += `export function use${toPascalCase(endpoint.operationId)}Query(${declarations.join(', ')}): UseQueryResult<${responseType}, ${errorType}> {\n`
+  content += `  const client = useApiClient();\n`
+  content += `  return useQuery({\n`
+  content += `    queryKey: ${keysName}.${methodName}(${keyArguments.join(', ')}),\n`
+  content += `    queryFn: ({ signal }) => client.${apiName}.${methodName}(${methodArguments.join(', ')}),\n`
+  content += `    ...options,\n`
+  content += `  });\n`
+  content += `}\n`
+  return content
+}
+
+/**
+ * Generates the mutation hook of a POST/PUT/PATCH/DELETE operation; the
+ * parameters of the method become the variables of the mutation
+ * @param operation The operation
+ * @param apiName The ApiClient property holding the API class
+ * @returns The hook content
+ */
+function generateMutationHook(
+  operation: QueryOperation,
+  apiName: string,
+): string {
+  const { endpoint, parameters, responseType, errorType } = operation
+  const methodName = endpoint.operationId
+  const variablesType =
+    parameters.length > 0
+      ? `{ ${parameters.map(toParameterDeclaration).join('; ')} }`
+      : 'void'
+  const mutationFn =
+    parameters.length > 0
+      ? `(variables) => client.${apiName}.${methodName}(${parameters
+          .map((parameter) => `variables.${parameter.name}`)
+          .join(', ')})`
+      : `() => client.${apiName}.${methodName}()`
+  const typeArguments = `${responseType}, ${errorType}, ${variablesType}`
+
+  let content = generateHookJsDoc(operation, false)
+  content += `export function use${toPascalCase(endpoint.operationId)}Mutation(options?: Omit<UseMutationOptions<${typeArguments}>, 'mutationFn'>): UseMutationResult<${typeArguments}> {\n`
+  content += `  const client = useApiClient();\n`
+  content += `  return useMutation({\n`
+  content += `    mutationFn: ${mutationFn},\n`
+  content += `    ...options,\n`
+  content += `  });\n`
+  content += `}\n`
+  return content
+}
+
+/**
+ * Generates the JSDoc of a hook from the summary of its operation
+ * @param operation The operation
+ * @param withParameters Whether the hook takes the method parameters
+ * @returns The JSDoc content
+ */
+function generateHookJsDoc(
+  operation: QueryOperation,
+  withParameters = true,
+): string {
+  const { endpoint, parameters } = operation
+  let content = `/**\n`
+  content += ` * ${escapeJsDoc(endpoint.summary || endpoint.operationId)}\n`
+  if (endpoint.deprecated) {
+    content += ` * @deprecated\n`
+  }
+  if (withParameters) {
+    for (const parameter of parameters) {
+      content +=
+        ` * @param ${parameter.name} ${parameter.description}`.trimEnd()
+      content += '\n'
+    }
+    content += ` * @param options Options of the query, except its key and function\n`
+  } else {
+    content += ` * @param options Options of the mutation, except its function\n`
+  }
+  content += ` */\n`
+  return content
+}
+
+/**
+ * Converts a path template to query key segments, e.g. `/pets/{petId}`
+ * to `'pets', petId`
+ * @param path The path template
+ * @param keyParameters The path and query parameters of the key
+ * @returns The key segment expressions
+ */
+function toKeySegments(
+  path: string,
+  keyParameters: MethodParameter[],
+): string[] {
+  return path
+    .split('/')
+    .filter((segment) => segment !== '')
+    .map((segment) => {
+      const param = /^{([^}]+)}$/.exec(segment)
+      if (param) {
+        const parameter = keyParameters.find(({ name }) => name === param[1])
+        return parameter ? toKeyPart(parameter) : param[1]
+      }
+      return segment.includes('{')
+        ? `\`${segment.replace(/{([^}]+)}/g, '${$1}')}\``
+        : `'${segment}'`
+    })
+}
+
+/**
+ * Returns the key part expression of a parameter; bigint and Date values,
+ * which TanStack Query cannot hash, are converted
+ * @param parameter The path or query parameter
+ * @returns The key part expression
+ */
+function toKeyPart(parameter: MethodParameter): string {
+  return /\b(bigint|Date)\b/.test(parameter.type)
+    ? `toQueryKeyPart(${parameter.name})`
+    : parameter.name
+}
+
+/**
+ * Declares a method parameter, e.g. `data?: Pet`
+ * @param parameter The method parameter
+ * @returns The parameter declaration
+ */
+export function toParameterDeclaration(parameter: MethodParameter): string {
+  return `${parameter.name}${parameter.optional ? '?' : ''}: ${parameter.type}`
+}
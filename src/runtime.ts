@@ -0,0 +1,622 @@
+/**
+ * Names exported by the generated runtime, which the generated API classes
+ * and client import in multi-file mode
+ */
+export const RUNTIME_TYPE_EXPORTS = [
+  'ApiConfig',
+  'ClientErrorStatus',
+  'RequestOptions',
+  'ServerErrorStatus',
+]
+export const RUNTIME_VALUE_EXPORTS = [
+  'ApiError',
+  'HttpClient',
+  'parseJson',
+  'toJson',
+]
+
+/**
+ * Generates the runtime shared by all API classes: common types and the
+ * HttpClient that performs requests through a configurable transport
+ * @returns The runtime lines
+ */
+export function generateRuntimeContent(): string[] {
+  return [
+    ...generateCommonTypes(),
+    ...generateAuthTypes(),
+    ...generateTransportTypes(),
+    ...generateApiError(),
+    ...generateHttpClient(),
+  ]
+}
+
+/**
+ * Generates the common types used in API method signatures
+ * @returns The common type lines
+ */
+function generateCommonTypes(): string[] {
+  return `// Common types
+export interface RequestOptions extends RequestInit {
+  timeout?: number
+  /** Security requirements of the operation, set by the generated methods */
+  security?: SecurityRequirement[]
+}
+
+// Utility types
+export type ApiResponse<T> = {
+  data: T
+  status: number
+  statusText: string
+  headers: Headers
+}
+`.split('\n')
+}
+
+/**
+ * Generates the types describing security schemes and their credentials
+ * @returns The authentication type lines
+ */
+function generateAuthTypes(): string[] {
+  return `// Authentication
+/**
+ * A token, or a callback returning the current token
+ */
+export type TokenProvider =
+  | string
+  | (() => string | undefined | Promise<string | undefined>)
+
+/**
+ * An OAuth2 / OpenID Connect access token, or a callback receiving the
+ * scopes the operation requires and returning a matching token
+ */
+export type OAuth2TokenProvider =
+  | string
+  | ((scopes: string[]) => string | undefined | Promise<string | undefined>)
+
+/**
+ * Credentials for HTTP basic authentication
+ */
+export interface BasicCredentials {
+  username: string
+  password: string
+}
+
+/**
+ * Basic credentials, or a callback returning them
+ */
+export type BasicCredentialsProvider =
+  | BasicCredentials
+  | (() => BasicCredentials | undefined | Promise<BasicCredentials | undefined>)
+
+/**
+ * Credentials for any kind of security scheme
+ */
+export type AuthCredential =
+  | TokenProvider
+  | OAuth2TokenProvider
+  | BasicCredentialsProvider
+
+/**
+ * How a security scheme is applied to a request
+ */
+export type SecurityScheme =
+  | { type: 'http'; scheme: string }
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string }
+  | { type: 'oauth2' | 'openIdConnect' }
+
+/**
+ * Scheme names with their required scopes, all of which must be applied
+ */
+export type SecurityRequirement = Record<string, string[]>
+`.split('\n')
+}
+
+/**
+ * Generates the types describing the HTTP transport and its configuration
+ * @returns The transport type lines
+ */
+function generateTransportTypes(): string[] {
+  return `// HTTP transport
+/**
+ * A fetch-compatible function, e.g. node-fetch, undici or a mock
+ */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>
+
+/**
+ * A fully resolved request as handed to an HttpAdapter
+ */
+export interface HttpRequest {
+  url: string
+  method: string
+  headers: Record<string, string>
+  body?: BodyInit | null
+  credentials?: RequestCredentials
+  signal?: AbortSignal | null
+  init: RequestInit
+}
+
+/**
+ * An alternative transport (for example one wrapping axios or a corporate
+ * HTTP client) that performs the request and resolves to a fetch Response
+ */
+export type HttpAdapter = (request: HttpRequest) => Promise<Response>
+
+// Interceptors
+/**
+ * Passed to response and error interceptors alongside the request
+ */
+export interface InterceptorContext {
+  /** The request after all request interceptors ran */
+  request: HttpRequest
+  /** 0 for the original request, incremented on every retry */
+  attempt: number
+  /** Sends the request (or a modified copy) again through the whole chain */
+  retry: (request?: HttpRequest) => Promise<Response>
+}
+
+/**
+ * Runs before every request; may modify the request or return a new one
+ */
+export type RequestInterceptor = (
+  request: HttpRequest,
+) => HttpRequest | void | Promise<HttpRequest | void>
+
+/**
+ * Runs after every response, including 4xx/5xx responses; may return a
+ * replacement response, e.g. the result of context.retry()
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  context: InterceptorContext,
+) => Response | void | Promise<Response | void>
+
+/**
+ * Runs when the transport fails (network error, abort, ...); returning a
+ * response recovers from the error, otherwise it is rethrown
+ */
+export type ErrorInterceptor = (
+  error: unknown,
+  context: InterceptorContext,
+) => Response | void | Promise<Response | void>
+
+/**
+ * The interceptor chains of an HttpClient, run in registration order
+ */
+export interface Interceptors {
+  request: RequestInterceptor[]
+  response: ResponseInterceptor[]
+  error: ErrorInterceptor[]
+}
+
+/**
+ * Configuration shared by every API class of a client
+ */
+export interface ApiConfig<
+  TAuth extends Record<string, AuthCredential | undefined> = Record<
+    string,
+    AuthCredential | undefined
+  >,
+> {
+  /** Base URL prepended to every request path */
+  baseUrl?: string
+  /** Fetch implementation, defaults to the global fetch */
+  fetch?: FetchLike
+  /** Alternative transport, takes precedence over fetch */
+  adapter?: HttpAdapter
+  /** Headers sent with every request, overridden by per-request headers */
+  headers?: Record<string, string>
+  /** Credentials mode used unless a request sets its own */
+  credentials?: RequestCredentials
+  /** Interceptors registered when the client is created */
+  interceptors?: Partial<Interceptors>
+  /** Credentials per security scheme, applied to the operations needing them */
+  auth?: TAuth
+}
+`.split('\n')
+}
+
+/**
+ * Generates the error thrown by the API methods for unsuccessful responses
+ * @returns The ApiError class lines
+ */
+function generateApiError(): string[] {
+  return `// Errors
+/**
+ * Status codes of client and server errors, used for the status of error
+ * responses declared as a range (4XX, 5XX) or as the default response
+ */
+export type ClientErrorStatus = ${statusRange(400)}
+export type ServerErrorStatus = ${statusRange(500)}
+
+/**
+ * Thrown by the API methods for responses outside the 2xx range. The error
+ * unions generated per operation narrow body and status, so callers can
+ * switch on status to read the payload of a declared error response
+ */
+export class ApiError<
+  TBody = unknown,
+  TStatus extends number = number,
+> extends Error {
+  public readonly status: TStatus
+  public readonly statusText: string
+  public readonly headers: Headers
+  /** The parsed JSON body, the text body, or undefined for empty bodies */
+  public readonly body: TBody
+
+  constructor(
+    status: TStatus,
+    statusText: string,
+    headers: Headers,
+    body: TBody,
+    message = 'API error: ' + status + ' ' + statusText,
+  ) {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'ApiError'
+    this.status = status
+    this.statusText = statusText
+    this.headers = headers
+    this.body = body
+  }
+
+  /**
+   * Creates the error from an unsuccessful response, consuming its body
+   * @param response The response
+   * @returns The error
+   */
+  static async fromResponse(response: Response): Promise<ApiError> {
+    const text = await response.text()
+    let body: unknown = text || undefined
+    const contentType = response.headers.get('Content-Type') || ''
+    if (text && contentType.includes('json')) {
+      try {
+        body = JSON.parse(text)
+      } catch {
+        // Keep the text of malformed JSON bodies
+      }
+    }
+
+    return new ApiError(
+      response.status,
+      response.statusText,
+      response.headers,
+      body,
+      'API error: ' + response.status + ' ' + (text || response.statusText),
+    )
+  }
+}
+
+/**
+ * Checks whether an error was thrown for an unsuccessful response, and
+ * narrows it to an operation's error union, e.g. isApiError<CreatePetError>(e)
+ * @param error The caught error
+ * @returns True if the error is an ApiError
+ */
+export function isApiError<T extends ApiError<any, number> = ApiError>(
+  error: unknown,
+): error is T {
+  return error instanceof ApiError
+}
+`.split('\n')
+}
+
+/**
+ * Lists the status codes of a class of responses as a union of literals
+ * @param start The first status code of the class, e.g. 400
+ * @returns The union type expression
+ */
+function statusRange(start: number): string {
+  return Array.from({ length: 100 }, (_, index) => start + index).join(' | ')
+}
+
+/**
+ * Generates the HttpClient class used by all API classes
+ * @returns The HttpClient class lines
+ */
+function generateHttpClient(): string[] {
+  return `/**
+ * Performs the requests of the API classes through the configured transport
+ */
+export class HttpClient {
+  public readonly config: ApiConfig
+  public readonly interceptors: Interceptors
+  public readonly securitySchemes: Record<string, SecurityScheme>
+
+  /**
+   * @param config Base URL or transport configuration
+   * @param securitySchemes The security schemes of the API
+   */
+  constructor(
+    config: ApiConfig | string = {},
+    securitySchemes: Record<string, SecurityScheme> = {},
+  ) {
+    this.config = typeof config === 'string' ? { baseUrl: config } : config
+    this.securitySchemes = securitySchemes
+    this.interceptors = {
+      request: [...(this.config.interceptors?.request || [])],
+      response: [...(this.config.interceptors?.response || [])],
+      error: [...(this.config.interceptors?.error || [])],
+    }
+  }
+
+  /**
+   * Registers an interceptor that runs before every request
+   * @param interceptor The interceptor
+   * @returns A function removing the interceptor again
+   */
+  useRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    return this.addInterceptor(this.interceptors.request, interceptor)
+  }
+
+  /**
+   * Registers an interceptor that runs after every response
+   * @param interceptor The interceptor
+   * @returns A function removing the interceptor again
+   */
+  useResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    return this.addInterceptor(this.interceptors.response, interceptor)
+  }
+
+  /**
+   * Registers an interceptor that runs when the transport fails
+   * @param interceptor The interceptor
+   * @returns A function removing the interceptor again
+   */
+  useErrorInterceptor(interceptor: ErrorInterceptor): () => void {
+    return this.addInterceptor(this.interceptors.error, interceptor)
+  }
+
+  /**
+   * Sends a request to a path relative to the base URL
+   * @param path The request path, including the query string
+   * @param init The request built by the API method
+   * @param options The per-call options, which take precedence over init
+   * @returns The response
+   */
+  async request(
+    path: string,
+    init: RequestOptions,
+    options: RequestOptions = {},
+  ): Promise<Response> {
+    // Default headers, then the method's headers, then per-call headers
+    const headers: Record<string, string> = {}
+    for (const source of [this.config.headers, init.headers, options.headers]) {
+      new Headers(source).forEach((value, key) => {
+        headers[key] = value
+      })
+    }
+
+    const { security = [], timeout, ...merged } = { ...init, ...options }
+    const requestInit: RequestInit = {
+      ...merged,
+      headers,
+      credentials: merged.credentials ?? this.config.credentials,
+    }
+
+    const request: HttpRequest = {
+      url: (this.config.baseUrl || '') + path,
+      method: requestInit.method || 'GET',
+      headers,
+      body: requestInit.body,
+      credentials: requestInit.credentials,
+      signal: requestInit.signal,
+      init: requestInit,
+    }
+
+    return this.send(request, security, 0)
+  }
+
+  /**
+   * Applies the first security requirement for which credentials are
+   * configured; requests without a satisfiable requirement are sent as is
+   * @param request The request to authenticate
+   * @param security The security requirements of the operation
+   */
+  private async applySecurity(
+    request: HttpRequest,
+    security: SecurityRequirement[],
+  ): Promise<void> {
+    const auth: Record<string, AuthCredential | undefined> =
+      this.config.auth || {}
+    const requirement = security.find((candidate) =>
+      Object.keys(candidate).every((name) => auth[name] !== undefined),
+    )
+    if (!requirement) return
+
+    for (const [name, scopes] of Object.entries(requirement)) {
+      const scheme = this.securitySchemes[name]
+      const credential = auth[name]
+      if (!scheme) continue
+
+      const value =
+        typeof credential === 'function'
+          ? await (credential as (scopes: string[]) => unknown)(scopes)
+          : credential
+
+      if (scheme.type === 'http' && scheme.scheme === 'basic') {
+        const basic = value as BasicCredentials | undefined
+        if (basic) {
+          request.headers['authorization'] =
+            'Basic ' + encodeBase64(basic.username + ':' + basic.password)
+        }
+        continue
+      }
+
+      if (typeof value !== 'string') continue
+
+      switch (scheme.type) {
+        case 'http':
+          request.headers['authorization'] =
+            (scheme.scheme === 'bearer' ? 'Bearer' : scheme.scheme) +
+            ' ' +
+            value
+          break
+        case 'oauth2':
+        case 'openIdConnect':
+          request.headers['authorization'] = 'Bearer ' + value
+          break
+        case 'apiKey':
+          if (scheme.in === 'header') {
+            request.headers[scheme.name.toLowerCase()] = value
+          } else if (scheme.in === 'query') {
+            request.url +=
+              (request.url.includes('?') ? '&' : '?') +
+              encodeURIComponent(scheme.name) +
+              '=' +
+              encodeURIComponent(value)
+          } else {
+            // Browsers do not let scripts set cookies on requests, there the
+            // cookie has to be set by the server or document.cookie instead
+            const cookie = scheme.name + '=' + encodeURIComponent(value)
+            request.headers['cookie'] = request.headers['cookie']
+              ? request.headers['cookie'] + '; ' + cookie
+              : cookie
+          }
+          break
+      }
+    }
+  }
+
+  /**
+   * Authenticates a request and runs it through the interceptor chains and
+   * the transport. Credentials are resolved on every attempt, so that a
+   * retry after refreshing a token sends the new one
+   * @param originalRequest The request before authentication and the
+   * request interceptors
+   * @param security The security requirements of the operation
+   * @param attempt The number of retries so far
+   * @returns The response
+   */
+  private async send(
+    originalRequest: HttpRequest,
+    security: SecurityRequirement[],
+    attempt: number,
+  ): Promise<Response> {
+    // Interceptors may mutate the request, so retries start from a copy
+    let request: HttpRequest = {
+      ...originalRequest,
+      headers: { ...originalRequest.headers },
+    }
+    await this.applySecurity(request, security)
+    for (const interceptor of this.interceptors.request) {
+      request = (await interceptor(request)) || request
+    }
+
+    const context: InterceptorContext = {
+      request,
+      attempt,
+      retry: (retryRequest) =>
+        this.send(retryRequest || originalRequest, security, attempt + 1),
+    }
+
+    let response: Response | undefined
+    try {
+      response = await this.transport(request)
+    } catch (error: unknown) {
+      for (const interceptor of this.interceptors.error) {
+        response = (await interceptor(error, context)) || undefined
+        if (response) break
+      }
+      if (!response) throw error
+    }
+
+    for (const interceptor of this.interceptors.response) {
+      response = (await interceptor(response, context)) || response
+    }
+
+    return response
+  }
+
+  /**
+   * Performs a request with the configured adapter or fetch implementation
+   * @param request The request to perform
+   * @returns The response
+   */
+  private transport(request: HttpRequest): Promise<Response> {
+    if (this.config.adapter) {
+      return this.config.adapter(request)
+    }
+
+    const fetchFn = this.config.fetch || fetch
+    return fetchFn(request.url, {
+      ...request.init,
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      credentials: request.credentials,
+      signal: request.signal,
+    })
+  }
+
+  /**
+   * Adds an interceptor to a chain
+   * @param chain The interceptor chain
+   * @param interceptor The interceptor to add
+   * @returns A function removing the interceptor again
+   */
+  private addInterceptor<T>(chain: T[], interceptor: T): () => void {
+    chain.push(interceptor)
+    return () => {
+      const index = chain.indexOf(interceptor)
+      if (index !== -1) chain.splice(index, 1)
+    }
+  }
+}
+
+/**
+ * Encodes a string as UTF-8 base64
+ * @param text The text to encode
+ * @returns The base64 string
+ */
+function encodeBase64(text: string): string {
+  let binary = ''
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+/**
+ * Serializes a request body as JSON, writing bigint values as exact JSON
+ * numbers instead of failing on them like JSON.stringify
+ * @param value The body to serialize
+ * @returns The JSON text, or undefined for an undefined body
+ */
+export function toJson(value: unknown): string | undefined {
+  const marker = '__bigint__'
+  const json: string | undefined = JSON.stringify(value, (_key, item) =>
+    typeof item === 'bigint' ? marker + item.toString() + marker : item,
+  )
+  return json?.replace(
+    new RegExp('"' + marker + '(-?\\\\d+)' + marker + '"', 'g'),
+    '$1',
+  )
+}
+
+/**
+ * Parses a JSON response body, reading integers beyond
+ * Number.MAX_SAFE_INTEGER as exact bigint values instead of rounding them
+ * like JSON.parse
+ * @param text The JSON text
+ * @returns The parsed value
+ */
+export function parseJson(text: string): any {
+  if (!/\\d{16}/.test(text)) return JSON.parse(text)
+
+  // Quote the unsafe integers outside of strings, then revive them
+  const marker = '__bigint__'
+  const json = text.replace(
+    /"(?:[^"\\\\]|\\\\.)*"|-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?/g,
+    (token) =>
+      /^-?\\d+$/.test(token) && !Number.isSafeInteger(Number(token))
+        ? '"' + marker + token + '"'
+        : token,
+  )
+  return JSON.parse(json, (_key, item) =>
+    typeof item === 'string' && /^__bigint__-?\\d+$/.test(item)
+      ? BigInt(item.slice(marker.length))
+      : item,
+  )
+}
+`.split('\n')
+}
@@ -0,0 +1,128 @@
+import { ApiSchema } from './types'
+import { isMapSchema } from './map-types'
+
+/**
+ * A reference a type alias resolves eagerly, without an interface or array
+ * in between
+ */
+interface AliasReference {
+  /** The referenced component schema */
+  target: string
+  /** The reference schema */
+  schema: ApiSchema
+  /** The composition members holding the reference, or null for an alias */
+  members: ApiSchema[] | null
+}
+
+/**
+ * Component schemas whose alias cycles are broken
+ */
+export interface AcyclicSchemas {
+  /** A copy of the component schemas without the references closing cycles */
+  schemas: Record<string, ApiSchema>
+  /** The broken cycles, one message each */
+  warnings: string[]
+}
+
+/**
+ * Breaks the cycles of component schemas that TypeScript cannot declare.
+ * Recursion through object properties, map values and array items is
+ * declared as is, since interfaces, index signatures and array types
+ * resolve lazily. A cycle of aliases, intersections and unions only, such
+ * as `type A = B; type B = A`, is a circularity error instead: the
+ * reference closing it is left out of its allOf/oneOf/anyOf, or typed as
+ * `any` for a plain alias
+ * @param componentSchemas The component schemas, left unchanged
+ * @returns A copy of the schemas without the cycles, and the warnings
+ */
+export function breakAliasCycles(
+  componentSchemas: Record<string, ApiSchema>,
+): AcyclicSchemas {
+  const schemas = structuredClone(componentSchemas)
+  const warnings: string[] = []
+  const done = new Set<string>()
+  const path: string[] = []
+
+  const visit = (name: string): void => {
+    path.push(name)
+    for (const reference of collectAliasReferences(schemas[name], null)) {
+      const start = path.indexOf(reference.target)
+      if (start !== -1) {
+        warnings.push(
+          breakReference(reference, [...path.slice(start), reference.target]),
+        )
+      } else if (!done.has(reference.target) && schemas[reference.target]) {
+        visit(reference.target)
+      }
+    }
+    path.pop()
+    done.add(name)
+  }
+
+  for (const name of Object.keys(schemas)) {
+    if (!done.has(name)) {
+      visit(name)
+    }
+  }
+
+  return { schemas, warnings }
+}
+
+/**
+ * Collects the references the type alias of a schema resolves eagerly
+ * @param schema The schema
+ * @param members The composition members holding the schema, if any
+ * @returns The references
+ */
+function collectAliasReferences(
+  schema: ApiSchema,
+  members: ApiSchema[] | null,
+): AliasReference[] {
+  if (schema.reference) {
+    return [{ target: schema.reference, schema, members }]
+  }
+  // Enums, interfaces, maps and arrays end the alias; recursive maps are
+  // declared with an index signature, which resolves lazily
+  if (
+    (schema.enum && schema.enum.length > 0) ||
+    schema.type === 'object' ||
+    Object.keys(schema.properties).length > 0 ||
+    isMapSchema(schema) ||
+    schema.type === 'array'
+  ) {
+    return []
+  }
+
+  const composition = schema.allOf?.length
+    ? schema.allOf
+    : schema.oneOf?.length
+      ? schema.oneOf
+      : schema.anyOf || []
+  return composition.flatMap((member) =>
+    collectAliasReferences(member, composition),
+  )
+}
+
+/**
+ * Removes the reference closing a cycle
+ * @param reference The reference closing the cycle
+ * @param cycle The names of the schemas in the cycle, starting and ending
+ * with the referenced schema
+ * @returns The warning describing the cycle
+ */
+function breakReference(reference: AliasReference, cycle: string[]): string {
+  const owner = cycle[cycle.length - 2]
+  const description =
+    cycle.length === 2
+      ? `Schema ${owner} references itself only through aliases, which TypeScript cannot declare`
+      : `Schemas ${cycle.join(' -> ')} reference each other only through aliases, which TypeScript cannot declare`
+
+  if (reference.members && reference.members.length > 1) {
+    reference.members.splice(reference.members.indexOf(reference.schema), 1)
+    return `${description}; ${owner} leaves out its member ${reference.target}`
+  }
+
+  reference.schema.reference = null
+  reference.schema.type = ''
+  return `${description}; ${owner} types its reference to ${reference.target} as any`
+}
@@ -17,8 +17,13 @@ export interface OpenAPISpec {
   paths?: Record<string, any>
   components?: {
     schemas?: Record<string, any>
+    securitySchemes?: Record<string, any>
   }
   definitions?: Record<string, any>
+  securityDefinitions?: Record<string, any>
+  consumes?: string[]
+  produces?: string[]
+  security?: ApiSecurityRequirement[]
 }
 
 /**
@@ -38,7 +43,9 @@ export interface ParsedSpec {
   paths: Record<string, ApiPath>
   components: {
     schemas: Record<string, ApiSchema>
+    securitySchemes: Record<string, ApiSecurityScheme>
   }
+  security: ApiSecurityRequirement[]
 }
 
 /**
@@ -58,13 +65,45 @@ export interface ApiEndpoint {
   summary: string
   description: string
   parameters: ApiParameter[]
-  requestBody: {
-    required: boolean
-    contentType: string
-    schema: ApiSchema | null
-  } | null
+  requestBody: ApiRequestBody | null
   responses: Record<string, ApiResponse>
   tags: string[]
+  security: ApiSecurityRequirement[]
+  deprecated: boolean
+}
+
+/**
+ * Represents the request body of an endpoint, in the media type used to send it
+ */
+export interface ApiRequestBody {
+  required: boolean
+  contentType: string
+  schema: ApiSchema | null
+  /** How the properties of form bodies are encoded, by property name */
+  encoding: Record<string, ApiEncoding>
+  /** Every declared media type, including the one used to send the body */
+  content: Record<string, ApiMediaType>
+}
+
+/**
+ * Represents the schema and encoding of a declared media type
+ */
+export interface ApiMediaType {
+  schema: ApiSchema | null
+  encoding: Record<string, ApiEncoding>
+  /** The example body, from `example` or the first of `examples` */
+  example?: unknown
+}
+
+/**
+ * Represents the encoding of a form body property
+ */
+export interface ApiEncoding {
+  /** The media type of a multipart part, empty for the default */
+  contentType: string
+  /** The serialization style of urlencoded arrays and objects */
+  style: 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject'
+  explode: boolean
 }
 
 /**
@@ -75,6 +114,7 @@ export interface ApiParameter {
   in: string
   required: boolean
   description: string
+  deprecated: boolean
   schema: ApiSchema | null
 }
 
@@ -83,9 +123,30 @@ export interface ApiParameter {
  */
 export interface ApiResponse {
   description: string
+  /** The schema of the preferred media type, JSON when declared */
   schema: ApiSchema | null
+  /** Every declared media type of the response body */
+  content: Record<string, ApiMediaType>
 }
 
+/**
+ * Represents a security scheme from the specification
+ */
+export interface ApiSecurityScheme {
+  name: string
+  type: 'http' | 'apiKey' | 'oauth2' | 'openIdConnect'
+  scheme: string
+  in: 'header' | 'query' | 'cookie' | ''
+  parameterName: string
+  description: string
+}
+
+/**
+ * A security requirement: every listed scheme (with its required scopes)
+ * must be applied; an operation is satisfied by any one of its requirements
+ */
+export type ApiSecurityRequirement = Record<string, string[]>
+
 /**
  * Represents an API schema from the specification
  */
@@ -94,14 +155,58 @@ export interface ApiSchema {
   type: string
   format?: string
   enum?: any[]
+  /** Member names for the enum values, from x-enum-varnames or x-enumNames */
+  enumNames?: string[]
+  /** Member descriptions, from x-enum-descriptions or x-enumDescriptions */
+  enumDescriptions?: string[]
+  description?: string
+  deprecated?: boolean
+  /** Only sent by the server, e.g. a generated id */
+  readOnly?: boolean
+  /** Example value of the schema */
+  example?: unknown
+  /** Value the server assumes when none is sent */
+  default?: unknown
+  /** Inclusive bounds of numbers; exclusive when the flag is set */
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: boolean
+  exclusiveMaximum?: boolean
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+  pattern?: string
   nullable: boolean
   properties: Record<string, ApiSchema>
+  /**
+   * The schema of the properties not declared: true allows any value, false
+   * none, null when the specification says nothing
+   */
+  additionalProperties: ApiSchema | boolean | null
+  /** The schemas of the properties whose names match a regular expression */
+  patternProperties: Record<string, ApiSchema>
+  /**
+   * The TypeScript names of the properties the naming strategy renames, by
+   * their name in the specification
+   */
+  propertyNames?: Record<string, string>
   required: string[]
   items: ApiSchema | null
   allOf: ApiSchema[] | null
   oneOf: ApiSchema[] | null
   anyOf: ApiSchema[] | null
   reference: string | null
+  discriminator: ApiDiscriminator | null
+}
+
+/**
+ * Represents the discriminator of a polymorphic oneOf/anyOf schema
+ */
+export interface ApiDiscriminator {
+  propertyName: string
+  /** Discriminator value to the name of the member schema it selects */
+  mapping: Record<string, string>
 }
 
 /**
@@ -120,5 +225,125 @@ export interface TypeDefinitions {
   interfaces: TypeDefinition[]
   types: TypeDefinition[]
   enums: TypeDefinition[]
+  /** Error unions of the operations, one per operationId */
+  errors: TypeDefinition[]
   apiClasses: TypeDefinition[]
+  validators: TypeDefinition[]
+  converters: TypeDefinition[]
+  /** Model factories, preceded by the random value source they share */
+  factories: TypeDefinition[]
+  /** MSW request handlers, one per tag */
+  mocks: TypeDefinition[]
+  /** TanStack Query keys and hooks, one per tag */
+  queries: TypeDefinition[]
+  /** The name collisions and schema cycles resolved while generating */
+  warnings: string[]
+  security: TypeDefinition | null
+}
+
+/**
+ * Layout of the generated output: one file, or one file per model and API class
+ */
+export type OutputMode = 'single' | 'multi'
+
+/**
+ * How enums are generated: a TypeScript enum, a union of literals, or an
+ * `as const` object with a type of the same name
+ */
+export type EnumStyle = 'enum' | 'union' | 'const'
+
+/**
+ * Options controlling how the generated definitions are written
+ */
+export interface WriterOptions {
+  outputMode?: OutputMode
+}
+
+/**
+ * Every option controlling generation, shared by the CLI and the config file
+ */
+export interface GenerationOptions extends WriterOptions {
+  /** Emit a zod schema and z.infer type next to every model */
+  zodSchemas?: boolean
+  /** Validate JSON responses with the zod schemas (implies zodSchemas) */
+  validateResponses?: boolean
+  /** How enums are generated, defaults to 'enum' */
+  enumStyle?: EnumStyle
+  /**
+   * Type dates as strings and int64 values as numbers, as they are sent on
+   * the wire, instead of reviving them into Date and bigint
+   */
+  wireTypes?: boolean
+  /** Generate a seedable `build<Model>()` factory for every object model */
+  factories?: boolean
+  /** Generate MSW request handlers returning example responses */
+  mocks?: boolean
+  /** Generate TanStack Query keys and hooks on top of the ApiClient */
+  queryHooks?: boolean
+  /** Generate even when validating the specification reports errors */
+  ignoreValidationErrors?: boolean
+  /** Only generate the operations matching every given criterion */
+  include?: OperationFilter
+  /** Leave out the operations matching any given criterion */
+  exclude?: OperationFilter
+  /** Callbacks naming the generated types, properties, methods and API classes */
+  naming?: NamingStrategy
+}
+
+/**
+ * Callbacks naming the generated code; a missing callback keeps the default
+ * naming. Names are made valid identifiers, and names that collide get a
+ * numeric suffix
+ */
+export interface NamingStrategy {
+  /**
+   * Names the type of a schema, from its component name or, for inline
+   * schemas, the name derived from where it is declared
+   */
+  type?: (name: string) => string
+  /**
+   * Names a property of a model, from its name in the specification. Bodies
+   * are converted between the two names when sent and received
+   */
+  property?: (name: string) => string
+  /** Names the API method of an operation */
+  method?: (operationId: string, endpoint: ApiEndpoint) => string
+  /** Names the API class of a tag */
+  apiClass?: (tag: string) => string
+}
+
+/**
+ * Criteria selecting operations; the schemas no remaining operation
+ * references are left out with them
+ */
+export interface OperationFilter {
+  /** Tags, any of which the operation has */
+  tags?: string[]
+  /** Path globs, e.g. `/pets/**`; `*` matches within a path segment */
+  paths?: string[]
+  /** operationId globs, e.g. `get*` */
+  operationIds?: string[]
+  /** HTTP methods, in any case */
+  methods?: string[]
+  /** Whether the operation is marked deprecated */
+  deprecated?: boolean
+}
+
+/**
+ * A single specification to generate a client from
+ */
+export interface GeneratorJob extends GenerationOptions {
+  name?: string
+  input: string
+  output: string
+}
+
+/**
+ * Contents of a swagger-gen.config.json / swagger-gen.config.ts file.
+ * Top-level options apply to every job unless the job overrides them.
+ */
+export interface GeneratorConfig extends GenerationOptions {
+  input?: string
+  output?: string
+  jobs?: GeneratorJob[]
 }
@@ -0,0 +1,492 @@
+import { OpenAPISpec } from './types'
+import { isRegExp } from './map-types'
+
+/**
+ * Errors stop generation, warnings are printed and generation continues
+ */
+export type DiagnosticSeverity = 'error' | 'warning'
+
+/**
+ * A problem found in a specification
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity
+  /** JSON pointer to the offending node, e.g. `#/paths/~1pets/get` */
+  pointer: string
+  message: string
+}
+
+/**
+ * The schema types of JSON Schema; `null` is only valid in OpenAPI 3.1
+ */
+const SCHEMA_TYPES = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'array',
+  'object',
+  'null',
+]
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+]
+
+/**
+ * Validates a bundled specification before it is parsed. Checks what the
+ * parser would otherwise silently turn into `any` or drop: missing paths,
+ * dangling $refs, duplicate operationIds, undeclared path parameters and
+ * unknown schema types
+ * @param spec The bundled specification, in which every $ref is local
+ * @returns The diagnostics, errors first
+ */
+export function validateSpec(spec: OpenAPISpec): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+
+  if (!spec.openapi && !spec.swagger) {
+    diagnostics.push(error('#', 'missing "openapi" or "swagger" version field'))
+  }
+  if (!spec.info?.title || !spec.info?.version) {
+    diagnostics.push(warning('#/info', 'missing title or version'))
+  }
+
+  if (!spec.paths || typeof spec.paths !== 'object') {
+    // OpenAPI 3.1 documents may consist of components or webhooks only
+    diagnostics.push(
+      spec.openapi?.startsWith('3.1')
+        ? warning('#', 'specification has no "paths"')
+        : error('#', 'missing "paths" object'),
+    )
+  } else {
+    validatePaths(spec, diagnostics)
+  }
+
+  validateReferences(spec, '#', spec, diagnostics)
+
+  const schemas = spec.components?.schemas || spec.definitions || {}
+  const schemasPointer = spec.components?.schemas
+    ? '#/components/schemas'
+    : '#/definitions'
+  for (const [name, schema] of Object.entries(schemas)) {
+    validateSchema(
+      schema,
+      `${schemasPointer}/${escapePointer(name)}`,
+      diagnostics,
+    )
+  }
+
+  return [
+    ...diagnostics.filter((diagnostic) => diagnostic.severity === 'error'),
+    ...diagnostics.filter((diagnostic) => diagnostic.severity === 'warning'),
+  ]
+}
+
+/**
+ * Formats a diagnostic as a single line
+ * @param diagnostic The diagnostic
+ * @returns The line, e.g. `error #/paths/~1pets/get: missing responses`
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `${diagnostic.severity} ${diagnostic.pointer}: ${diagnostic.message}`
+}
+
+/**
+ * Validates the operations: unique operationIds, declared path parameters,
+ * responses and the schemas of parameters, request bodies and responses
+ * @param spec The specification
+ * @param diagnostics The diagnostics to add to
+ */
+function validatePaths(spec: OpenAPISpec, diagnostics: Diagnostic[]): void {
+  const operationIds = new Map<string, string>()
+
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    const pathPointer = `#/paths/${escapePointer(path)}`
+    if (!pathItem || typeof pathItem !== 'object') {
+      diagnostics.push(error(pathPointer, 'path item must be an object'))
+      continue
+    }
+
+    const templateParams = [...path.matchAll(/\{([^}]+)\}/g)].map(
+      (match) => match[1],
+    )
+    const pathLevelParams = resolveParameters(
+      pathItem.parameters,
+      `${pathPointer}/parameters`,
+      spec,
+    )
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method]
+      if (!operation) continue
+      const pointer = `${pathPointer}/${method}`
+
+      if (operation.operationId) {
+        const previous = operationIds.get(operation.operationId)
+        if (previous) {
+          diagnostics.push(
+            error(
+              `${pointer}/operationId`,
+              `duplicate operationId "${operation.operationId}", also used by ${previous}`,
+            ),
+          )
+        } else {
+          operationIds.set(operation.operationId, pointer)
+        }
+      }
+
+      // Operation parameters override path-level ones with the same name
+      const operationParams = resolveParameters(
+        operation.parameters,
+        `${pointer}/parameters`,
+        spec,
+      )
+      const params = [
+        ...pathLevelParams.filter(
+          ({ param }) =>
+            !operationParams.some(
+              (other) =>
+                other.param.name === param.name && other.param.in === param.in,
+            ),
+        ),
+        ...operationParams,
+      ]
+
+      for (const name of templateParams) {
+        if (
+          !params.some(
+            ({ param }) => param.in === 'path' && param.name === name,
+          )
+        ) {
+          diagnostics.push(
+            error(
+              pointer,
+              `path parameter "${name}" of ${path} is not declared in "parameters"`,
+            ),
+          )
+        }
+      }
+
+      for (const { param, pointer: paramPointer } of params) {
+        if (!param.name || !param.in) {
+          diagnostics.push(
+            error(paramPointer, 'parameter needs a "name" and an "in"'),
+          )
+          continue
+        }
+        if (param.in === 'path') {
+          if (!templateParams.includes(param.name)) {
+            diagnostics.push(
+              warning(
+                paramPointer,
+                `path parameter "${param.name}" does not appear in ${path}`,
+              ),
+            )
+          } else if (!param.required) {
+            diagnostics.push(
+              warning(
+                paramPointer,
+                `path parameter "${param.name}" must be required`,
+              ),
+            )
+          }
+        }
+        if (param.schema) {
+          validateSchema(param.schema, `${paramPointer}/schema`, diagnostics)
+        } else if (param.type) {
+          // Swagger 2.0 non-body parameters declare their type directly
+          validateSchema(param, paramPointer, diagnostics, ['file'])
+        }
+      }
+
+      validateOperationBodies(operation, pointer, diagnostics)
+    }
+  }
+}
+
+/**
+ * Validates the request body and responses of an operation
+ * @param operation The operation object
+ * @param pointer The pointer to the operation
+ * @param diagnostics The diagnostics to add to
+ */
+function validateOperationBodies(
+  operation: any,
+  pointer: string,
+  diagnostics: Diagnostic[],
+): void {
+  for (const [mediaType, media] of Object.entries<any>(
+    operation.requestBody?.content || {},
+  )) {
+    if (media?.schema) {
+      validateSchema(
+        media.schema,
+        `${pointer}/requestBody/content/${escapePointer(mediaType)}/schema`,
+        diagnostics,
+      )
+    }
+  }
+
+  if (!operation.responses || Object.keys(operation.responses).length === 0) {
+    diagnostics.push(warning(pointer, 'operation declares no responses'))
+    return
+  }
+
+  for (const [statusCode, response] of Object.entries<any>(
+    operation.responses,
+  )) {
+    const responsePointer = `${pointer}/responses/${escapePointer(statusCode)}`
+    if (!/^([1-5](\d\d|XX)|default)$/.test(statusCode)) {
+      diagnostics.push(
+        warning(responsePointer, `invalid response status "${statusCode}"`),
+      )
+    }
+    if (response?.schema) {
+      validateSchema(response.schema, `${responsePointer}/schema`, diagnostics)
+    }
+    for (const [mediaType, media] of Object.entries<any>(
+      response?.content || {},
+    )) {
+      if (media?.schema) {
+        validateSchema(
+          media.schema,
+          `${responsePointer}/content/${escapePointer(mediaType)}/schema`,
+          diagnostics,
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Validates a schema and its subschemas: known types, array items,
+ * required properties that exist and property name patterns
+ * @param schema The schema object
+ * @param pointer The pointer to the schema
+ * @param diagnostics The diagnostics to add to
+ * @param extraTypes Additional types valid in this position
+ */
+function validateSchema(
+  schema: any,
+  pointer: string,
+  diagnostics: Diagnostic[],
+  extraTypes: string[] = [],
+): void {
+  if (!schema || typeof schema !== 'object' || schema.$ref) {
+    return
+  }
+
+  const types: unknown[] = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type === undefined
+      ? []
+      : [schema.type]
+  for (const type of types) {
+    if (
+      typeof type !== 'string' ||
+      (!SCHEMA_TYPES.includes(type) && !extraTypes.includes(type))
+    ) {
+      diagnostics.push(
+        error(`${pointer}/type`, `unknown type ${JSON.stringify(type)}`),
+      )
+    }
+  }
+
+  if (types.includes('array') && !schema.items) {
+    diagnostics.push(
+      warning(pointer, 'array schema without "items" is typed as any[]'),
+    )
+  }
+
+  if (Array.isArray(schema.required) && schema.properties) {
+    for (const name of schema.required) {
+      if (!(name in schema.properties)) {
+        diagnostics.push(
+          warning(
+            `${pointer}/required`,
+            `required property "${name}" is not declared in "properties"`,
+          ),
+        )
+      }
+    }
+  }
+
+  // Discriminated unions are generated from oneOf/anyOf only, not from a
+  // base schema that its subtypes extend with allOf
+  if (
+    schema.discriminator &&
+    !Array.isArray(schema.oneOf) &&
+    !Array.isArray(schema.anyOf)
+  ) {
+    diagnostics.push(
+      warning(
+        `${pointer}/discriminator`,
+        'discriminator without oneOf/anyOf is ignored; schemas extending this one with allOf get no discriminated union or type guards',
+      ),
+    )
+  }
+
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    validateSchema(
+      property,
+      `${pointer}/properties/${escapePointer(name)}`,
+      diagnostics,
+    )
+  }
+  if (schema.items) {
+    validateSchema(schema.items, `${pointer}/items`, diagnostics)
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    validateSchema(
+      schema.additionalProperties,
+      `${pointer}/additionalProperties`,
+      diagnostics,
+    )
+  }
+  for (const [pattern, property] of Object.entries(
+    schema.patternProperties || {},
+  )) {
+    if (!isRegExp(pattern)) {
+      diagnostics.push(
+        warning(
+          `${pointer}/patternProperties/${escapePointer(pattern)}`,
+          `"${pattern}" is not a valid regular expression; its properties are typed with string keys`,
+        ),
+      )
+    }
+    validateSchema(
+      property,
+      `${pointer}/patternProperties/${escapePointer(pattern)}`,
+      diagnostics,
+    )
+  }
+  for (const keyword of ['allOf', 'oneOf', 'anyOf']) {
+    if (Array.isArray(schema[keyword])) {
+      schema[keyword].forEach((member: any, index: number) => {
+        validateSchema(member, `${pointer}/${keyword}/${index}`, diagnostics)
+      })
+    }
+  }
+}
+
+/**
+ * Reports every local $ref that does not point to a node of the document
+ * @param node The node to check, recursively
+ * @param pointer The pointer to the node
+ * @param spec The specification the references resolve against
+ * @param diagnostics The diagnostics to add to
+ */
+function validateReferences(
+  node: any,
+  pointer: string,
+  spec: OpenAPISpec,
+  diagnostics: Diagnostic[],
+): void {
+  if (!node || typeof node !== 'object') {
+    return
+  }
+
+  if (typeof node.$ref === 'string') {
+    if (!node.$ref.startsWith('#')) {
+      diagnostics.push(
+        error(`${pointer}/$ref`, `unresolved external $ref "${node.$ref}"`),
+      )
+    } else if (resolvePointer(spec, node.$ref) === undefined) {
+      diagnostics.push(
+        error(`${pointer}/$ref`, `$ref "${node.$ref}" does not resolve`),
+      )
+    }
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    validateReferences(
+      value,
+      `${pointer}/${escapePointer(key)}`,
+      spec,
+      diagnostics,
+    )
+  }
+}
+
+/**
+ * Resolves the parameters of a path item or operation, following $refs to
+ * shared parameters
+ * @param parameters The parameters list
+ * @param pointer The pointer to the parameters list
+ * @param spec The specification
+ * @returns The parameters with the pointers to their entries
+ */
+function resolveParameters(
+  parameters: any,
+  pointer: string,
+  spec: OpenAPISpec,
+): { param: any; pointer: string }[] {
+  if (!Array.isArray(parameters)) {
+    return []
+  }
+
+  // Dangling $refs are reported by validateReferences
+  return parameters.flatMap((param, index) => {
+    const resolved =
+      typeof param?.$ref === 'string' ? resolvePointer(spec, param.$ref) : param
+    return resolved && typeof resolved === 'object'
+      ? [{ param: resolved, pointer: `${pointer}/${index}` }]
+      : []
+  })
+}
+
+/**
+ * Resolves a local $ref to the node it points to
+ * @param spec The specification
+ * @param ref The $ref, e.g. `#/components/schemas/Pet`
+ * @returns The node, or undefined if the pointer does not resolve
+ */
+function resolvePointer(spec: OpenAPISpec, ref: string): any {
+  let node: any = spec
+  for (const token of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(token)
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~')
+    if (!node || typeof node !== 'object' || !(key in node)) {
+      return undefined
+    }
+    node = node[key]
+  }
+  return node
+}
+
+/**
+ * Escapes a key for use as a JSON pointer token
+ * @param key The object key
+ * @returns The escaped token
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Creates an error diagnostic
+ * @param pointer The pointer to the offending node
+ * @param message What is wrong
+ * @returns The diagnostic
+ */
+function error(pointer: string, message: string): Diagnostic {
+  return { severity: 'error', pointer, message }
+}
+
+/**
+ * Creates a warning diagnostic
+ * @param pointer The pointer to the offending node
+ * @param message What is wrong
+ * @returns The diagnostic
+ */
+function warning(pointer: string, message: string): Diagnostic {
+  return { severity: 'warning', pointer, message }
+}
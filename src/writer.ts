@@ -1,22 +1,80 @@
 import * as fs from 'fs'
 import * as path from 'path'
-import { TypeDefinitions, TypeDefinition } from './types'
+import { TypeDefinitions, TypeDefinition, WriterOptions } from './types'
+import {
+  generateRuntimeContent,
+  RUNTIME_TYPE_EXPORTS,
+  RUNTIME_VALUE_EXPORTS,
+} from './runtime'
+import {
+  generateCombinedHandlers,
+  MSW_IMPORTS,
+  toOverridesName,
+} from './mock-generator'
+import {
+  generateContextImports,
+  generateQueryContext,
+  generateQueryImports,
+} from './query-generator'
 
 /**
- * Writes the generated TypeScript definitions to a file
+ * Marker placed in the header of every generated file
+ */
+const GENERATED_MARKER =
+  'This file was automatically generated by swagger-typescript-api-generator'
+
+/**
+ * Import of the zod library used by the generated validation schemas
+ */
+const ZOD_IMPORT = "import { z } from 'zod'"
+
+/**
+ * Writes the generated TypeScript definitions to a file, or to a directory
+ * tree when the multi-file output mode is selected
  * @param typeDefinitions The generated TypeScript definitions
- * @param outputPath The path to write the definitions to
+ * @param outputPath The file (single mode) or directory (multi mode) to write to
+ * @param options Options controlling the output layout
  */
 export async function writeTypesToFile(
   typeDefinitions: TypeDefinitions,
   outputPath: string,
+  options: WriterOptions = {},
 ): Promise<void> {
   try {
+    if (options.outputMode === 'multi') {
+      // Accept a file path for convenience and write next to it
+      const outputDir = outputPath.endsWith('.ts')
+        ? path.dirname(outputPath)
+        : outputPath
+      await writeMultipleFiles(typeDefinitions, outputDir)
+      return
+    }
+
     const outputDir = path.dirname(outputPath)
     await ensureDirectoryExists(outputDir)
 
     const content = generateFileContent(typeDefinitions)
     fs.writeFileSync(outputPath, content)
+
+    // The handlers import msw, so they are kept out of the client file
+    const mocksPath = outputPath.replace(/(\.ts)?$/, '.mocks.ts')
+    if (typeDefinitions.mocks.length > 0) {
+      fs.writeFileSync(mocksPath, generateMocksFileContent(typeDefinitions))
+    } else if (isGeneratedFile(mocksPath)) {
+      fs.unlinkSync(mocksPath)
+    }
+
+    // The hooks import react, so they are kept out of the client file too
+    const queriesPath = outputPath.replace(/(\.ts)?$/, '.queries.ts')
+    if (typeDefinitions.queries.length > 0) {
+      const clientPath = './' + path.basename(outputPath).replace(/\.ts$/, '')
+      fs.writeFileSync(
+        queriesPath,
+        generateQueriesFileContent(typeDefinitions, clientPath),
+      )
+    } else if (isGeneratedFile(queriesPath)) {
+      fs.unlinkSync(queriesPath)
+    }
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error)
     throw new Error(`Failed to write type definitions: ${errorMessage}`)
@@ -41,32 +99,11 @@ async function ensureDirectoryExists(dir: string): Promise<void> {
 function generateFileContent(typeDefinitions: TypeDefinitions): string {
   const content: string[] = []
 
-  content.push('/**')
-  content.push(
-    ' * This file was automatically generated by swagger-typescript-api-generator',
-  )
-  content.push(' * DO NOT EDIT DIRECTLY')
-  content.push(' */')
-  content.push('')
-
-  content.push('/* eslint-disable */')
-  content.push('')
-
-  content.push('// Common types')
-  content.push('export interface RequestOptions extends RequestInit {')
-  content.push('  timeout?: number')
-  content.push('}')
-  content.push('')
-
-  // Add utility types
-  content.push('// Utility types')
-  content.push('export type ApiResponse<T> = {')
-  content.push('  data: T')
-  content.push('  status: number')
-  content.push('  statusText: string')
-  content.push('  headers: Headers')
-  content.push('}')
-  content.push('')
+  content.push(...generateFileHeader())
+  if (typeDefinitions.validators.length > 0) {
+    content.push(ZOD_IMPORT, '')
+  }
+  content.push(...generateRuntimeContent())
 
   // Sort definitions by dependencies
   const sortedEnums = sortDefinitionsByDependencies(typeDefinitions.enums)
@@ -74,6 +111,7 @@ function generateFileContent(typeDefinitions: TypeDefinitions): string {
     typeDefinitions.interfaces,
   )
   const sortedTypes = sortDefinitionsByDependencies(typeDefinitions.types)
+  const sortedValidators = sortValidators(typeDefinitions.validators)
   const sortedApiClasses = typeDefinitions.apiClasses
 
   // Add enums
@@ -103,6 +141,49 @@ function generateFileContent(typeDefinitions: TypeDefinitions): string {
     }
   }
 
+  // Add error types
+  if (typeDefinitions.errors.length > 0) {
+    content.push('// Errors')
+    for (const errorDef of typeDefinitions.errors) {
+      content.push(errorDef.content)
+      content.push('')
+    }
+  }
+
+  // Add zod schemas
+  if (sortedValidators.length > 0) {
+    content.push('// Validation schemas')
+    for (const validatorDef of sortedValidators) {
+      content.push(validatorDef.content)
+      content.push('')
+    }
+  }
+
+  // Add converters
+  if (typeDefinitions.converters.length > 0) {
+    content.push('// Converters')
+    for (const converterDef of typeDefinitions.converters) {
+      content.push(converterDef.content)
+      content.push('')
+    }
+  }
+
+  // Add factories
+  if (typeDefinitions.factories.length > 0) {
+    content.push('// Factories')
+    for (const factoryDef of typeDefinitions.factories) {
+      content.push(factoryDef.content)
+      content.push('')
+    }
+  }
+
+  // Add security schemes
+  if (typeDefinitions.security) {
+    content.push('// Security')
+    content.push(typeDefinitions.security.content)
+    content.push('')
+  }
+
   // Add API classes
   if (sortedApiClasses.length > 0) {
     content.push('// API Classes')
@@ -112,37 +193,727 @@ function generateFileContent(typeDefinitions: TypeDefinitions): string {
     }
 
     // Generate main API class that combines all API classes
-    if (sortedApiClasses.length > 1) {
-      content.push('/**')
-      content.push(' * Main API client that combines all API classes')
-      content.push(' */')
-      content.push('export class ApiClient {')
-
-      // Import each API class
-      for (const apiClassDef of sortedApiClasses) {
-        const propName =
-          apiClassDef.name.charAt(0).toLowerCase() + apiClassDef.name.slice(1)
-        content.push(`  public ${propName}: ${apiClassDef.name}`)
-      }
+    content.push(
+      ...generateApiClientClass(
+        sortedApiClasses,
+        typeDefinitions.security !== null,
+      ),
+    )
+  }
 
-      content.push('')
-      content.push("  constructor(baseUrl: string = '') {")
+  return content.join('\n')
+}
 
-      for (const apiClassDef of sortedApiClasses) {
-        const propName =
-          apiClassDef.name.charAt(0).toLowerCase() + apiClassDef.name.slice(1)
-        content.push(`    this.${propName} = new ${apiClassDef.name}(baseUrl)`)
-      }
+/**
+ * Generates the content of the file with the MSW request handlers of
+ * every tag
+ * @param typeDefinitions The generated TypeScript definitions
+ * @returns The file content
+ */
+function generateMocksFileContent(typeDefinitions: TypeDefinitions): string {
+  const content = [...generateFileHeader(), ...MSW_IMPORTS, '']
 
-      content.push('  }')
-      content.push('}')
-      content.push('')
-    }
+  for (const mock of typeDefinitions.mocks) {
+    content.push(mock.content)
   }
+  content.push(generateCombinedHandlers(typeDefinitions.mocks))
 
   return content.join('\n')
 }
 
+/**
+ * Generates the content of the file with the TanStack Query keys and hooks
+ * of every tag
+ * @param typeDefinitions The generated TypeScript definitions
+ * @param clientPath The relative path to the client file
+ * @returns The file content
+ */
+function generateQueriesFileContent(
+  typeDefinitions: TypeDefinitions,
+  clientPath: string,
+): string {
+  const body = [
+    generateQueryContext(),
+    ...typeDefinitions.queries.map((query) => query.content),
+  ].join('\n')
+
+  return [
+    ...generateFileHeader(),
+    ...generateQueryImports(body),
+    ...generateClientTypeImports(body, typeDefinitions, clientPath),
+    '',
+    body,
+  ].join('\n')
+}
+
+/**
+ * Writes one file per model and API class, a shared core file and an
+ * index.ts barrel that re-exports everything
+ * @param typeDefinitions The generated TypeScript definitions
+ * @param outputDir The directory to write the files to
+ */
+async function writeMultipleFiles(
+  typeDefinitions: TypeDefinitions,
+  outputDir: string,
+): Promise<void> {
+  const modelsDir = path.join(outputDir, 'models')
+  const apisDir = path.join(outputDir, 'apis')
+  await ensureDirectoryExists(modelsDir)
+  await ensureDirectoryExists(apisDir)
+
+  const models = [
+    ...sortDefinitionsByDependencies(typeDefinitions.enums),
+    ...sortDefinitionsByDependencies(typeDefinitions.interfaces),
+    ...sortDefinitionsByDependencies(typeDefinitions.types),
+  ]
+  const modelNames = new Set(models.map((model) => model.name))
+  const enumNames = new Set(
+    typeDefinitions.enums.map((enumDef) => enumDef.name),
+  )
+  const validators = sortValidators(typeDefinitions.validators)
+  const validatorNames = new Set(validators.map((validator) => validator.name))
+  const typeNames = new Set(
+    [...modelNames].filter((name) => !enumNames.has(name)),
+  )
+  const errors = typeDefinitions.errors
+  const errorNames = new Set(errors.map((error) => error.name))
+  const converters = typeDefinitions.converters
+  const converterNames = new Set(converters.map((converter) => converter.name))
+  const apiClasses = typeDefinitions.apiClasses
+  const hasSecurity = typeDefinitions.security !== null
+
+  // Core file with the runtime shared by every API class
+  fs.writeFileSync(
+    path.join(outputDir, 'core.ts'),
+    [...generateFileHeader(), ...generateRuntimeContent()].join('\n'),
+  )
+
+  // Security schemes and the typed authentication configuration
+  const securityPath = path.join(outputDir, 'security.ts')
+  if (typeDefinitions.security) {
+    const securityContent = typeDefinitions.security.content
+    const runtimeTypes = [
+      'BasicCredentialsProvider',
+      'OAuth2TokenProvider',
+      'SecurityScheme',
+      'TokenProvider',
+    ].filter((name) => new RegExp(`\\b${name}\\b`).test(securityContent))
+    const content = [
+      ...generateFileHeader(),
+      `import type { ${runtimeTypes.join(', ')} } from './core'`,
+      '',
+      securityContent,
+      '',
+    ]
+    fs.writeFileSync(securityPath, content.join('\n'))
+  } else if (isGeneratedFile(securityPath)) {
+    fs.unlinkSync(securityPath)
+  }
+
+  for (const model of models) {
+    const content = [
+      ...generateFileHeader(),
+      ...generateImports(model, modelNames, './'),
+      model.content,
+      '',
+    ]
+    fs.writeFileSync(
+      path.join(modelsDir, `${model.name}.ts`),
+      content.join('\n'),
+    )
+  }
+
+  // One file per error type, next to the models its responses use
+  const errorsDir = path.join(outputDir, 'errors')
+  if (errors.length > 0) {
+    await ensureDirectoryExists(errorsDir)
+  }
+
+  for (const error of errors) {
+    const content = [
+      ...generateFileHeader(),
+      ...generateRuntimeImports('../core', error.content),
+      ...generateImports(error, modelNames, '../models/'),
+      error.content,
+      '',
+    ]
+    fs.writeFileSync(
+      path.join(errorsDir, `${error.name}.ts`),
+      content.join('\n'),
+    )
+  }
+
+  if (fs.existsSync(errorsDir)) {
+    removeStaleFiles(
+      errorsDir,
+      errors.map((error) => `${error.name}.ts`),
+    )
+  }
+
+  // One file per zod schema, importing the schemas and enums it uses
+  const schemasDir = path.join(outputDir, 'schemas')
+  if (validators.length > 0) {
+    await ensureDirectoryExists(schemasDir)
+  }
+
+  for (const validator of validators) {
+    const content = [
+      ...generateFileHeader(),
+      ZOD_IMPORT,
+      ...generateValueImports(validator, validatorNames, './'),
+      ...generateEnumImports(validator, enumNames, '../models/'),
+      ...generateImports(validator, typeNames, '../models/'),
+      validator.content,
+      '',
+    ]
+    fs.writeFileSync(
+      path.join(schemasDir, `${validator.name}.ts`),
+      content.join('\n'),
+    )
+  }
+
+  if (fs.existsSync(schemasDir)) {
+    removeStaleFiles(
+      schemasDir,
+      validators.map((validator) => `${validator.name}.ts`),
+    )
+  }
+
+  // One file per converter function
+  const convertersDir = path.join(outputDir, 'converters')
+  if (converters.length > 0) {
+    await ensureDirectoryExists(convertersDir)
+  }
+
+  for (const converter of converters) {
+    const content = [
+      ...generateFileHeader(),
+      ...generateValueImports(converter, converterNames, './'),
+      ...generateImports(converter, modelNames, '../models/'),
+      converter.content,
+      '',
+    ]
+    fs.writeFileSync(
+      path.join(convertersDir, `${converter.name}.ts`),
+      content.join('\n'),
+    )
+  }
+
+  if (fs.existsSync(convertersDir)) {
+    removeStaleFiles(
+      convertersDir,
+      converters.map((converter) => `${converter.name}.ts`),
+    )
+  }
+
+  // One file per factory, and one for the random value source they share
+  const factories = typeDefinitions.factories
+  const factoryNames = new Set(factories.map((factory) => factory.name))
+  const factoriesDir = path.join(outputDir, 'factories')
+  if (factories.length > 0) {
+    await ensureDirectoryExists(factoriesDir)
+  }
+
+  for (const factory of factories) {
+    const content = [
+      ...generateFileHeader(),
+      ...generateValueImports(factory, factoryNames, './'),
+      ...generateEnumValuesImports(factory, enumNames, '../models/'),
+      ...generateImports(factory, modelNames, '../models/'),
+      factory.content,
+      '',
+    ]
+    fs.writeFileSync(
+      path.join(factoriesDir, `${factory.name}.ts`),
+      content.join('\n'),
+    )
+  }
+
+  if (fs.existsSync(factoriesDir)) {
+    removeStaleFiles(
+      factoriesDir,
+      factories.map((factory) => `${factory.name}.ts`),
+    )
+  }
+
+  for (const apiClass of apiClasses) {
+    const content = [
+      ...generateFileHeader(),
+      ...generateRuntimeImports('../core', apiClass.content),
+      ...generateSecurityImports(hasSecurity, '../security'),
+    ]
+    if (/\bz\./.test(apiClass.content)) {
+      content.push(ZOD_IMPORT)
+    }
+    content.push(
+      ...generateValueImports(apiClass, validatorNames, '../schemas/'),
+      ...generateValueImports(apiClass, converterNames, '../converters/'),
+      ...generateImports(apiClass, errorNames, '../errors/'),
+      ...generateImports(apiClass, modelNames, '../models/'),
+      apiClass.content,
+    )
+    fs.writeFileSync(
+      path.join(apisDir, `${apiClass.name}.ts`),
+      content.join('\n'),
+    )
+  }
+
+  removeStaleFiles(
+    modelsDir,
+    models.map((model) => `${model.name}.ts`),
+  )
+  removeStaleFiles(
+    apisDir,
+    apiClasses.map((apiClass) => `${apiClass.name}.ts`),
+  )
+
+  // MSW request handlers, one file per tag; not part of the barrel file
+  // because they import msw
+  const mocks = typeDefinitions.mocks
+  const mocksDir = path.join(outputDir, 'mocks')
+  if (mocks.length > 0) {
+    await ensureDirectoryExists(mocksDir)
+
+    for (const mock of mocks) {
+      const content = [
+        ...generateFileHeader(),
+        ...MSW_IMPORTS,
+        '',
+        mock.content,
+      ]
+      fs.writeFileSync(
+        path.join(mocksDir, `${mock.name}.ts`),
+        content.join('\n'),
+      )
+    }
+
+    const content = [
+      ...generateFileHeader(),
+      "import type { HttpHandler } from 'msw'",
+    ]
+    for (const mock of mocks) {
+      content.push(
+        `import { ${mock.name} } from './${mock.name}'`,
+        `import type { ${toOverridesName(mock.name)} } from './${mock.name}'`,
+      )
+    }
+    content.push('')
+    for (const mock of mocks) {
+      content.push(`export * from './${mock.name}'`)
+    }
+    content.push('', generateCombinedHandlers(mocks))
+    fs.writeFileSync(path.join(mocksDir, 'index.ts'), content.join('\n'))
+  }
+
+  if (fs.existsSync(mocksDir)) {
+    removeStaleFiles(mocksDir, [
+      ...mocks.map((mock) => `${mock.name}.ts`),
+      ...(mocks.length > 0 ? ['index.ts'] : []),
+    ])
+  }
+
+  // TanStack Query hooks, one file per tag; not part of the barrel file
+  // because they import react
+  const queries = typeDefinitions.queries
+  const queriesDir = path.join(outputDir, 'queries')
+  if (queries.length > 0) {
+    await ensureDirectoryExists(queriesDir)
+
+    const context = generateQueryContext()
+    fs.writeFileSync(
+      path.join(queriesDir, 'context.ts'),
+      [
+        ...generateFileHeader(),
+        ...generateQueryImports(context),
+        ...generateClientTypeImports(context, typeDefinitions, '..'),
+        '',
+        context,
+      ].join('\n'),
+    )
+
+    for (const query of queries) {
+      const content = [
+        ...generateFileHeader(),
+        ...generateQueryImports(query.content),
+        ...generateContextImports(query.content),
+        ...generateClientTypeImports(query.content, typeDefinitions, '..'),
+        '',
+        query.content,
+      ]
+      fs.writeFileSync(
+        path.join(queriesDir, `${query.name}.ts`),
+        content.join('\n'),
+      )
+    }
+
+    const index = [...generateFileHeader(), "export * from './context'"]
+    for (const query of queries) {
+      index.push(`export * from './${query.name}'`)
+    }
+    index.push('')
+    fs.writeFileSync(path.join(queriesDir, 'index.ts'), index.join('\n'))
+  }
+
+  if (fs.existsSync(queriesDir)) {
+    removeStaleFiles(
+      queriesDir,
+      queries.length > 0
+        ? [
+            'context.ts',
+            'index.ts',
+            ...queries.map((query) => `${query.name}.ts`),
+          ]
+        : [],
+    )
+  }
+
+  // Main API client combining all API classes
+  const hasApiClient = apiClasses.length > 0
+  if (hasApiClient) {
+    const content = [
+      ...generateFileHeader(),
+      "import { HttpClient } from './core'",
+      "import type { ApiConfig } from './core'",
+      ...generateSecurityImports(hasSecurity, './security'),
+    ]
+    for (const apiClass of apiClasses) {
+      content.push(`import { ${apiClass.name} } from './apis/${apiClass.name}'`)
+    }
+    content.push('')
+    content.push(...generateApiClientClass(apiClasses, hasSecurity))
+    fs.writeFileSync(path.join(outputDir, 'client.ts'), content.join('\n'))
+  }
+
+  // Barrel file
+  const index = [...generateFileHeader(), "export * from './core'"]
+  if (hasSecurity) {
+    index.push("export * from './security'")
+  }
+  for (const model of models) {
+    index.push(`export * from './models/${model.name}'`)
+  }
+  for (const error of errors) {
+    index.push(`export * from './errors/${error.name}'`)
+  }
+  for (const validator of validators) {
+    index.push(`export * from './schemas/${validator.name}'`)
+  }
+  for (const converter of converters) {
+    index.push(`export * from './converters/${converter.name}'`)
+  }
+  for (const factory of factories) {
+    index.push(`export * from './factories/${factory.name}'`)
+  }
+  for (const apiClass of apiClasses) {
+    index.push(`export * from './apis/${apiClass.name}'`)
+  }
+  if (hasApiClient) {
+    index.push("export * from './client'")
+  }
+  index.push('')
+  fs.writeFileSync(path.join(outputDir, 'index.ts'), index.join('\n'))
+}
+
+/**
+ * Generates the type-only import statements for a definition's dependencies
+ * @param definition The definition to generate imports for
+ * @param modelNames The names of all generated models
+ * @param modelsPath The relative path from the definition to the models
+ * @returns The import lines, followed by a blank line if not empty
+ */
+function generateImports(
+  definition: TypeDefinition,
+  modelNames: Set<string>,
+  modelsPath: string,
+): string[] {
+  const dependencies = [...new Set(definition.dependencies)].filter(
+    (dependency) =>
+      dependency !== definition.name && modelNames.has(dependency),
+  )
+
+  const imports = dependencies
+    .sort()
+    .map(
+      (dependency) =>
+        `import type { ${dependency} } from '${modelsPath}${dependency}'`,
+    )
+
+  if (imports.length > 0) {
+    imports.push('')
+  }
+
+  return imports
+}
+
+/**
+ * Generates the type-only import of the models, error types and ApiClient
+ * that code outside the client, such as the query hooks, references
+ * @param content The code importing the types
+ * @param typeDefinitions The generated TypeScript definitions
+ * @param clientPath The relative path to the client file or barrel
+ * @returns The import lines
+ */
+function generateClientTypeImports(
+  content: string,
+  typeDefinitions: TypeDefinitions,
+  clientPath: string,
+): string[] {
+  const names = [
+    ...typeDefinitions.enums,
+    ...typeDefinitions.interfaces,
+    ...typeDefinitions.types,
+    ...typeDefinitions.errors,
+  ].map((definition) => definition.name)
+  names.push('ApiClient')
+
+  // Model names may also appear in the summaries of the JSDoc comments
+  const code = content.replace(/\/\*\*[\s\S]*?\*\//g, '')
+  const used = [...new Set(names)]
+    .filter((name) => new RegExp(`\\b${name}\\b`).test(code))
+    .sort()
+  return used.length > 0
+    ? [`import type { ${used.join(', ')} } from '${clientPath}'`]
+    : []
+}
+
+/**
+ * Generates the import statements for the zod schemas or converter
+ * functions a definition uses, each written to a file of its own name
+ * @param definition The definition to generate imports for
+ * @param names The names of all generated schemas or converters
+ * @param importPath The relative path from the definition to their files
+ * @returns The import lines, followed by a blank line if not empty
+ */
+function generateValueImports(
+  definition: TypeDefinition,
+  names: Set<string>,
+  importPath: string,
+): string[] {
+  const imports = [...new Set(definition.dependencies)]
+    .filter(
+      (dependency) => dependency !== definition.name && names.has(dependency),
+    )
+    .sort()
+    .map(
+      (dependency) =>
+        `import { ${dependency} } from '${importPath}${dependency}'`,
+    )
+
+  if (imports.length > 0) {
+    imports.push('')
+  }
+
+  return imports
+}
+
+/**
+ * Generates the value imports for the enums a zod schema validates against
+ * @param definition The zod schema definition
+ * @param enumNames The names of all generated enums
+ * @param modelsPath The relative path from the schema to the models
+ * @returns The import lines, followed by a blank line if not empty
+ */
+function generateEnumImports(
+  definition: TypeDefinition,
+  enumNames: Set<string>,
+  modelsPath: string,
+): string[] {
+  const imports = [...new Set(definition.dependencies)]
+    .filter((dependency) => enumNames.has(dependency))
+    .sort()
+    .map(
+      (dependency) =>
+        `import { ${dependency} } from '${modelsPath}${dependency}'`,
+    )
+
+  if (imports.length > 0) {
+    imports.push('')
+  }
+
+  return imports
+}
+
+/**
+ * Generates the imports of the value lists of the enums a factory picks from
+ * @param definition The factory definition
+ * @param enumNames The names of all generated enums
+ * @param modelsPath The relative path from the factory to the models
+ * @returns The import lines, followed by a blank line if not empty
+ */
+function generateEnumValuesImports(
+  definition: TypeDefinition,
+  enumNames: Set<string>,
+  modelsPath: string,
+): string[] {
+  const imports = [...new Set(definition.dependencies)]
+    .filter(
+      (dependency) =>
+        dependency.endsWith('Values') &&
+        enumNames.has(dependency.slice(0, -'Values'.length)),
+    )
+    .sort()
+    .map(
+      (dependency) =>
+        `import { ${dependency} } from '${modelsPath}${dependency.slice(0, -'Values'.length)}'`,
+    )
+
+  if (imports.length > 0) {
+    imports.push('')
+  }
+
+  return imports
+}
+
+/**
+ * Removes previously generated files that are no longer part of the output
+ * @param dir The directory to clean up
+ * @param keep The file names that were just written
+ */
+function removeStaleFiles(dir: string, keep: string[]): void {
+  for (const fileName of fs.readdirSync(dir)) {
+    if (!fileName.endsWith('.ts') || keep.includes(fileName)) {
+      continue
+    }
+
+    // Never touch files that were not written by this generator
+    const filePath = path.join(dir, fileName)
+    if (isGeneratedFile(filePath)) {
+      fs.unlinkSync(filePath)
+    }
+  }
+}
+
+/**
+ * Checks whether a file exists and was written by this generator
+ * @param filePath The file to check
+ * @returns True if the file carries the generated marker
+ */
+function isGeneratedFile(filePath: string): boolean {
+  return (
+    fs.existsSync(filePath) &&
+    fs.readFileSync(filePath, 'utf8').includes(GENERATED_MARKER)
+  )
+}
+
+/**
+ * Generates the header placed at the top of every generated file
+ * @returns The header lines
+ */
+function generateFileHeader(): string[] {
+  return [
+    '/**',
+    ` * ${GENERATED_MARKER}`,
+    ' * DO NOT EDIT DIRECTLY',
+    ' */',
+    '',
+    '/* eslint-disable */',
+    '',
+  ]
+}
+
+/**
+ * Generates the import statements for the parts of the generated runtime
+ * that a file uses
+ * @param corePath The relative path to the core file
+ * @param content The content of the importing file
+ * @returns The import lines
+ */
+function generateRuntimeImports(corePath: string, content: string): string[] {
+  const isUsed = (name: string) => new RegExp(`\\b${name}\\b`).test(content)
+  const values = RUNTIME_VALUE_EXPORTS.filter(isUsed)
+  const types = RUNTIME_TYPE_EXPORTS.filter(isUsed)
+
+  const imports: string[] = []
+  if (values.length > 0) {
+    imports.push(`import { ${values.join(', ')} } from '${corePath}'`)
+  }
+  if (types.length > 0) {
+    imports.push(`import type { ${types.join(', ')} } from '${corePath}'`)
+  }
+
+  return imports
+}
+
+/**
+ * Generates the import statements for the security schemes, if any
+ * @param hasSecurity Whether the API declares security schemes
+ * @param securityPath The relative path to the security file
+ * @returns The import lines
+ */
+function generateSecurityImports(
+  hasSecurity: boolean,
+  securityPath: string,
+): string[] {
+  if (!hasSecurity) {
+    return []
+  }
+
+  return [
+    `import { securitySchemes } from '${securityPath}'`,
+    `import type { AuthConfig } from '${securityPath}'`,
+  ]
+}
+
+/**
+ * Generates the main API client class that combines all API classes
+ * @param apiClasses The generated API class definitions
+ * @param hasSecurity Whether the API declares security schemes
+ * @returns The API client class lines
+ */
+function generateApiClientClass(
+  apiClasses: TypeDefinition[],
+  hasSecurity: boolean,
+): string[] {
+  const content: string[] = []
+
+  content.push('/**')
+  content.push(' * Main API client that combines all API classes')
+  content.push(' */')
+  content.push('export class ApiClient {')
+  content.push('  public readonly http: HttpClient')
+
+  // Import each API class
+  for (const apiClassDef of apiClasses) {
+    const propName =
+      apiClassDef.name.charAt(0).toLowerCase() + apiClassDef.name.slice(1)
+    content.push(`  public ${propName}: ${apiClassDef.name}`)
+  }
+
+  content.push('')
+  content.push('  /**')
+  content.push('   * @param config Base URL or transport configuration')
+  content.push('   */')
+  if (hasSecurity) {
+    content.push('  constructor(config: ApiConfig<AuthConfig> | string = {}) {')
+    content.push('    this.http = new HttpClient(config, securitySchemes)')
+  } else {
+    content.push('  constructor(config: ApiConfig | string = {}) {')
+    content.push('    this.http = new HttpClient(config)')
+  }
+
+  for (const apiClassDef of apiClasses) {
+    const propName =
+      apiClassDef.name.charAt(0).toLowerCase() + apiClassDef.name.slice(1)
+    content.push(`    this.${propName} = new ${apiClassDef.name}(this.http)`)
+  }
+
+  content.push('  }')
+  content.push('}')
+  content.push('')
+
+  return content
+}
+
+/**
+ * Sorts zod schemas so that every schema is declared after the schemas it
+ * references directly; references within a cycle are lazy
+ * @param validators The zod schema definitions
+ * @returns The sorted zod schema definitions
+ */
+function sortValidators(validators: TypeDefinition[]): TypeDefinition[] {
+  return sortDefinitionsByDependencies(validators).reverse()
+}
+
 /**
  * Sorts TypeScript definitions by dependencies
  * @param definitions The TypeScript definitions to sort
@@ -0,0 +1,606 @@
+import {
+  ApiSchema,
+  GenerationOptions,
+  TypeDefinition,
+  TypeDefinitions,
+} from './types'
+import { getMapValueSchemas, isMapSchema, isRegExp } from './map-types'
+import { toPropertyName } from './naming'
+
+/**
+ * Marks a reference to another zod schema until it is known whether the
+ * reference is part of a cycle and has to be wrapped in z.lazy
+ */
+const REF_MARKER = '\u0000'
+
+/**
+ * Processes a schema and adds the zod schemas it needs to the validators,
+ * mirroring the named definitions created by the TypeScript generator
+ * @param schema The API schema to process
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @returns The zod expression validating the schema
+ */
+export function processZodSchema(
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): string {
+  if (schema.reference) {
+    return toSchemaRef(schema.reference)
+  }
+
+  const isNamed =
+    (schema.enum && schema.enum.length > 0) ||
+    schema.type === 'object' ||
+    Object.keys(schema.properties).length > 0 ||
+    isMapSchema(schema) ||
+    (schema.type === 'array' && schema.items) ||
+    (schema.allOf && schema.allOf.length > 0) ||
+    (schema.oneOf && schema.oneOf.length > 0) ||
+    (schema.anyOf && schema.anyOf.length > 0)
+
+  if (!isNamed) {
+    return toZodPrimitive(schema.type, schema.format, options)
+  }
+
+  const name = schema.name
+  if (!findValidator(name, typeDefinitions)) {
+    addValidator(name, schema, typeDefinitions, options)
+  }
+
+  return toSchemaRef(name)
+}
+
+/**
+ * Ensures that a component schema has a zod schema under its own name, also
+ * when it is a primitive or an alias of another schema
+ * @param name The component schema name
+ * @param schema The component schema
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ */
+export function processZodComponent(
+  name: string,
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): void {
+  const expression = processZodSchema(schema, typeDefinitions, options)
+
+  if (
+    expression !== toSchemaRef(name) &&
+    !findValidator(name, typeDefinitions)
+  ) {
+    typeDefinitions.validators.push(createValidator(name, expression))
+  }
+}
+
+/**
+ * Resolves the references between the zod schemas once all of them are
+ * known: references within a cycle are wrapped in z.lazy, and schemas in a
+ * cycle are annotated with their model type, which TypeScript cannot infer
+ * @param typeDefinitions The collection of TypeScript definitions
+ */
+export function finalizeZodSchemas(typeDefinitions: TypeDefinitions): void {
+  const cycles = findCycles(typeDefinitions.validators)
+
+  for (const validator of typeDefinitions.validators) {
+    const cycle = cycles.get(validator.name)
+    validator.content = resolveZodReferences(validator.content, (name) =>
+      cycle && cycle === cycles.get(name) ? `z.lazy(() => ${name})` : name,
+    )
+
+    if (cycle) {
+      // Schemas renaming properties take input of another shape
+      const typeName = validator.name.slice(0, -'Schema'.length)
+      const typeArguments = validator.content.includes('.transform(')
+        ? `${typeName}, z.ZodTypeDef, unknown`
+        : typeName
+      if (!validator.dependencies.includes(typeName)) {
+        validator.dependencies.push(typeName)
+      }
+      // Schemas checking pattern properties are annotated already
+      validator.content = validator.content.replace(
+        `export const ${validator.name} =`,
+        `export const ${validator.name}: z.ZodType<${typeArguments}> =`,
+      )
+    }
+  }
+}
+
+/**
+ * Replaces the reference markers in a zod expression
+ * @param expression The zod expression
+ * @param resolve Maps a referenced schema name to the expression to use
+ * @returns The resolved expression
+ */
+export function resolveZodReferences(
+  expression: string,
+  resolve: (name: string) => string = (name) => name,
+): string {
+  return expression.replace(
+    new RegExp(`${REF_MARKER}([^${REF_MARKER}]+)${REF_MARKER}`, 'g'),
+    (_, name: string) => resolve(name),
+  )
+}
+
+/**
+ * Returns the name of the zod schema validating a model
+ * @param typeName The model type name
+ * @returns The zod schema name
+ */
+export function toSchemaName(typeName: string): string {
+  return `${typeName}Schema`
+}
+
+/**
+ * Builds a marked reference to the zod schema of a model
+ * @param typeName The model type name
+ * @returns The marked reference
+ */
+function toSchemaRef(typeName: string): string {
+  return `${REF_MARKER}${toSchemaName(typeName)}${REF_MARKER}`
+}
+
+/**
+ * Finds an existing zod schema for a model
+ * @param typeName The model type name
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @returns True if the zod schema exists
+ */
+function findValidator(
+  typeName: string,
+  typeDefinitions: TypeDefinitions,
+): boolean {
+  const name = toSchemaName(typeName)
+  return typeDefinitions.validators.some((validator) => validator.name === name)
+}
+
+/**
+ * Generates the zod schema for a named model and adds it to the validators
+ * @param name The model type name
+ * @param schema The model schema
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ */
+function addValidator(
+  name: string,
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): void {
+  // Registered before descending so that recursive schemas find it
+  const validator = createValidator(name, '')
+  typeDefinitions.validators.push(validator)
+
+  let expression: string
+  if (schema.enum && schema.enum.length > 0) {
+    expression = toZodEnum(name, schema.enum, typeDefinitions)
+  } else if (isMapSchema(schema)) {
+    expression = `z.record(z.string(), ${toZodMapValue(schema, typeDefinitions, options)})`
+  } else if (
+    schema.type === 'object' ||
+    Object.keys(schema.properties).length > 0
+  ) {
+    expression = toZodObject(schema, typeDefinitions, options)
+  } else if (schema.type === 'array' && schema.items) {
+    expression = `z.array(${processZodSchema(schema.items, typeDefinitions, options)})`
+  } else if (schema.allOf && schema.allOf.length > 0) {
+    expression = schema.allOf
+      .map((component) => processZodSchema(component, typeDefinitions, options))
+      .reduce((intersection, component) => `${intersection}.and(${component})`)
+  } else {
+    const components = (schema.oneOf || schema.anyOf || []).map((component) =>
+      toZodUnionMember(component, schema, typeDefinitions, options),
+    )
+    expression =
+      components.length === 1
+        ? components[0]
+        : `z.union([${components.join(', ')}])`
+  }
+
+  Object.assign(
+    validator,
+    createValidator(name, expression, checksPatternProperties(schema)),
+  )
+}
+
+/**
+ * Creates the definition of a zod schema with its inferred type
+ * @param typeName The model type name
+ * @param expression The zod expression
+ * @param typed Whether the schema is annotated with its model type, for
+ * output that TypeScript cannot infer
+ * @returns The zod schema definition
+ */
+function createValidator(
+  typeName: string,
+  expression: string,
+  typed = false,
+): TypeDefinition {
+  const name = toSchemaName(typeName)
+  const dependencies = [
+    ...new Set(
+      [...expression.matchAll(new RegExp(`${REF_MARKER}(\\w+)`, 'g'))].map(
+        (match) => match[1],
+      ),
+    ),
+  ]
+
+  // Schemas of enums with a runtime object validate against that object
+  if (expression === `z.nativeEnum(${typeName})`) {
+    dependencies.push(typeName)
+  }
+
+  if (typed) {
+    dependencies.push(typeName)
+  }
+
+  const annotation = typed
+    ? `: z.ZodType<${typeName}, z.ZodTypeDef, unknown>`
+    : ''
+  let content = `export const ${name}${annotation} = ${expression};\n`
+  content += `export type ${name}Type = z.infer<typeof ${name}>;`
+
+  return { name, content, dependencies }
+}
+
+/**
+ * Generates the zod expression for a member of a oneOf/anyOf union, with
+ * the discriminator property narrowed like in the generated union type
+ * @param member The member schema
+ * @param union The union schema
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @returns The zod expression
+ */
+function toZodUnionMember(
+  member: ApiSchema,
+  union: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): string {
+  const expression = processZodSchema(member, typeDefinitions, options)
+  if (!union.discriminator || !member.reference) {
+    return expression
+  }
+
+  const { propertyName, mapping } = union.discriminator
+  const literals = Object.keys(mapping)
+    .filter((value) => mapping[value] === member.reference)
+    .map((value) => `z.literal(${JSON.stringify(value)})`)
+  if (literals.length === 0) {
+    return expression
+  }
+
+  const discriminant =
+    literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`
+
+  return `${expression}.and(z.object({ ${toKey(propertyName)}: ${discriminant} })${toRenaming(
+    [[propertyName, toPropertyName(union, propertyName)]],
+  )})`
+}
+
+/**
+ * Generates the zod expression for an enum
+ * @param name The enum type name
+ * @param values The enum values
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @returns The zod expression
+ */
+function toZodEnum(
+  name: string,
+  values: any[],
+  typeDefinitions: TypeDefinitions,
+): string {
+  // Enums generated as TypeScript enums or const objects exist at runtime
+  const enumDefinition = typeDefinitions.enums.find(
+    (definition) => definition.name === name,
+  )
+  if (
+    enumDefinition &&
+    new RegExp(`^export (enum|const) ${name}\\b`, 'm').test(
+      enumDefinition.content,
+    )
+  ) {
+    return `z.nativeEnum(${name})`
+  }
+
+  const literals = values.map((value) => `z.literal(${JSON.stringify(value)})`)
+  return literals.length === 1
+    ? literals[0]
+    : `z.union([${literals.join(', ')}])`
+}
+
+/**
+ * Generates the zod expression for an object schema
+ * @param schema The object schema
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @returns The zod expression
+ */
+function toZodObject(
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): string {
+  const properties = Object.entries(schema.properties)
+  if (properties.length === 0) {
+    return 'z.object({}).passthrough()'
+  }
+
+  let expression = 'z.object({\n'
+  for (const [propName, propSchema] of properties) {
+    let propExpression = processZodSchema(propSchema, typeDefinitions, options)
+    if (propSchema.nullable) {
+      propExpression += '.nullable()'
+    }
+    if (!schema.required.includes(propName)) {
+      propExpression += '.optional()'
+    }
+
+    expression += `  ${toKey(propName)}: ${propExpression},\n`
+  }
+  expression += '})'
+
+  // Other properties are kept, since an object is open unless it sets
+  // additionalProperties to false, and checked where the schema types them
+  const patterns = Object.keys(schema.patternProperties)
+  if (schema.additionalProperties === false && patterns.length === 0) {
+    expression += '.strict()'
+  } else if (checksPatternProperties(schema)) {
+    expression +=
+      '.catchall(z.unknown())' +
+      toPatternCheck(schema, typeDefinitions, options)
+  } else if (
+    (schema.additionalProperties !== null &&
+      typeof schema.additionalProperties === 'object') ||
+    (schema.additionalProperties === false && patterns.length > 0)
+  ) {
+    expression += `.catchall(${toZodMapValue(schema, typeDefinitions, options)})`
+  } else {
+    expression += '.passthrough()'
+  }
+
+  // Properties are validated under their names in the specification
+  return (
+    expression +
+    toRenaming(
+      properties.map(([propName]) => [
+        propName,
+        toPropertyName(schema, propName),
+      ]),
+    )
+  )
+}
+
+/**
+ * Checks whether the zod schema of an object checks the properties matching
+ * its patterns one by one: the properties it does not declare are otherwise
+ * open, which their index signatures in the interface are not
+ * @param schema The object schema
+ * @returns True if the schema has patterns and no additionalProperties
+ * schema or false
+ */
+function checksPatternProperties(schema: ApiSchema): boolean {
+  return (
+    Object.keys(schema.patternProperties).length > 0 &&
+    (schema.additionalProperties === null ||
+      schema.additionalProperties === true)
+  )
+}
+
+/**
+ * Generates the transform that parses the properties of an object matching
+ * its patterns with the schemas of the patterns, reporting their issues
+ * under the property
+ * @param schema The object schema
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @returns The transform call; its output is typed by the model annotation
+ */
+function toPatternCheck(
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): string {
+  // Invalid patterns are typed with string keys and left unchecked
+  const patterns = Object.entries(schema.patternProperties)
+    .filter(([pattern]) => isRegExp(pattern))
+    .map(([pattern, valueSchema]) => {
+      let expression = processZodSchema(valueSchema, typeDefinitions, options)
+      if (valueSchema.nullable) {
+        expression += '.nullable()'
+      }
+      return `[new RegExp(${JSON.stringify(pattern)}, "u"), ${expression}]`
+    })
+
+  let check = '.transform((value, ctx): any => {\n'
+  check += `  const patterns: Array<[RegExp, z.ZodTypeAny]> = [${patterns.join(', ')}];\n`
+  check += '  const result: Record<string, unknown> = { ...value };\n'
+  check += '  for (const [key, item] of Object.entries(value)) {\n'
+  check += '    for (const [pattern, itemSchema] of patterns) {\n'
+  check += '      if (!pattern.test(key)) continue;\n'
+  check += '      const parsed = itemSchema.safeParse(item);\n'
+  check += '      if (parsed.success) {\n'
+  check += '        result[key] = parsed.data;\n'
+  check += '      } else {\n'
+  check += '        for (const issue of parsed.error.issues) {\n'
+  check += '          ctx.addIssue({ ...issue, path: [key, ...issue.path] });\n'
+  check += '        }\n'
+  check += '      }\n'
+  check += '    }\n'
+  check += '  }\n'
+  check += '  return result;\n'
+  check += '})'
+  return check
+}
+
+/**
+ * Generates the transform renaming the properties of a validated object to
+ * the names of the generated types
+ * @param names Pairs of the name in the specification and the generated name
+ * @returns The transform call, empty if no property is renamed
+ */
+function toRenaming(names: string[][]): string {
+  const renamed = names.filter(([propName, name]) => propName !== name)
+  if (renamed.length === 0) {
+    return ''
+  }
+
+  const bindings = renamed.map(
+    ([propName], index) => `${JSON.stringify(propName)}: _${index}`,
+  )
+  const entries = renamed.map(([, name], index) => `${toKey(name)}: _${index}`)
+  return `.transform(({ ${bindings.join(', ')}, ...value }) => ({ ...value, ${entries.join(', ')} }))`
+}
+
+/**
+ * Quotes a property name for an object literal if it is not an identifier
+ * @param name The property name
+ * @returns The property key
+ */
+function toKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+/**
+ * Generates the zod expression for the values of the properties an object
+ * schema does not declare
+ * @param schema The object or map schema
+ * @param typeDefinitions The collection of TypeScript definitions
+ * @param options The generation options
+ * @returns The zod expression, matching any value the schema allows
+ */
+function toZodMapValue(
+  schema: ApiSchema,
+  typeDefinitions: TypeDefinitions,
+  options: GenerationOptions,
+): string {
+  if (schema.additionalProperties === true) {
+    return 'z.any()'
+  }
+
+  const values = getMapValueSchemas(schema).map((valueSchema) => {
+    const expression = processZodSchema(valueSchema, typeDefinitions, options)
+    return valueSchema.nullable ? `${expression}.nullable()` : expression
+  })
+  const members = [...new Set(values)]
+  if (members.length === 0) {
+    return 'z.never()'
+  }
+  return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`
+}
+
+/**
+ * Converts a Swagger/OpenAPI primitive type to a zod expression, matching
+ * the TypeScript type the generator emits for it
+ * @param type The Swagger/OpenAPI type
+ * @param format The Swagger/OpenAPI format
+ * @param options The generation options
+ * @returns The zod expression
+ */
+function toZodPrimitive(
+  type: string | undefined,
+  format: string | undefined,
+  options: GenerationOptions,
+): string {
+  if (!type) return 'z.any()'
+
+  const revive = !options.wireTypes
+  switch (type.toLowerCase()) {
+    case 'integer':
+      return format === 'int64' && revive
+        ? 'z.coerce.bigint()'
+        : 'z.number().int()'
+    case 'number':
+      return format === 'int64' && revive ? 'z.coerce.bigint()' : 'z.number()'
+    case 'string':
+      if (format === 'date' || format === 'date-time') {
+        return revive ? 'z.coerce.date()' : 'z.string()'
+      }
+      if (format === 'binary') return 'z.instanceof(Blob)'
+      return 'z.string()'
+    case 'boolean':
+      return 'z.boolean()'
+    case 'array':
+      return 'z.array(z.any())'
+    case 'object':
+    default:
+      return 'z.record(z.string(), z.any())'
+  }
+}
+
+/**
+ * Finds the strongly connected components of the schema reference graph
+ * that form cycles (including schemas referencing themselves)
+ * @param validators The zod schema definitions
+ * @returns A map from schema name to an identifier of its cycle
+ */
+function findCycles(validators: TypeDefinition[]): Map<string, number> {
+  const names = new Set(validators.map((validator) => validator.name))
+  const edges = new Map<string, string[]>()
+  for (const validator of validators) {
+    edges.set(
+      validator.name,
+      validator.dependencies.filter((dependency) => names.has(dependency)),
+    )
+  }
+
+  // Tarjan's algorithm
+  const cycles = new Map<string, number>()
+  const indices = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const stack: string[] = []
+  let index = 0
+  let cycleId = 0
+
+  function visit(name: string) {
+    indices.set(name, index)
+    lowLinks.set(name, index)
+    index++
+    stack.push(name)
+
+    for (const dependency of edges.get(name) || []) {
+      if (!indices.has(dependency)) {
+        visit(dependency)
+        lowLinks.set(
+          name,
+          Math.min(lowLinks.get(name)!, lowLinks.get(dependency)!),
+        )
+      } else if (stack.includes(dependency)) {
+        lowLinks.set(
+          name,
+          Math.min(lowLinks.get(name)!, indices.get(dependency)!),
+        )
+      }
+    }
+
+    if (lowLinks.get(name) === indices.get(name)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        component.push(member)
+      } while (member !== name)
+
+      const isCycle =
+        component.length > 1 || (edges.get(name) || []).includes(name)
+      if (isCycle) {
+        cycleId++
+        for (const member of component) {
+          cycles.set(member, cycleId)
+        }
+      }
+    }
+  }
+
+  for (const name of names) {
+    if (!indices.has(name)) {
+      visit(name)
+    }
+  }
+
+  return cycles
+}